@@ -0,0 +1,265 @@
+/**
+ * LedgerLite - Aggregation
+ *
+ * Implements GROUP BY, the aggregate functions COUNT, SUM, MIN, MAX and AVG,
+ * and aggregates registered with Database.createAggregate.
+ *
+ * Design decisions:
+ * - Rows are grouped with a hash map keyed by the GROUP BY values
+ * - Each aggregate is computed by an accumulator (init / step / result),
+ *   so every function follows the same single-pass pattern; a user-defined
+ *   aggregate's init / step / final functions map onto it directly
+ * - NULL inputs are ignored by every aggregate except COUNT(*)
+ * - Over an empty input, COUNT returns 0 and the others return NULL
+ * - SUM and AVG of DECIMAL values are exact: SUM keeps the largest input
+ *   scale, AVG is rounded half-to-even to that scale
+ * - Groups are emitted in order of first appearance
+ *
+ * Time complexity: O(n × a) for n input rows and a aggregate expressions.
+ */
+
+import {
+    AggregateExpression,
+    AggregateFunction,
+    AggregateFunctionDefinition,
+    Expression,
+    Row,
+    Value,
+} from '../types';
+import {
+    EvaluationContext,
+    compareValues,
+    convertToType,
+    evaluateExpression,
+    formatExpression,
+    typeName,
+    valueKey,
+} from './ExpressionEvaluator';
+import { Decimal } from '../values/Decimal';
+
+/**
+ * Names of the built-in aggregate functions.
+ */
+export const AGGREGATE_FUNCTIONS: ReadonlySet<string> = new Set<AggregateFunction>(['COUNT', 'SUM', 'MIN', 'MAX', 'AVG']);
+
+/**
+ * Running state for a single aggregate over a single group.
+ */
+interface Accumulator {
+    step(value: Value): void;
+    result(): Value;
+}
+
+/**
+ * Require a numeric (INT or DECIMAL) input for SUM / AVG.
+ */
+function requireNumber(name: AggregateFunction, value: Value): number | Decimal {
+    if (typeof value !== 'number' && !(value instanceof Decimal)) {
+        throw new Error(`${name} expects numeric values, got ${typeName(value)}`);
+    }
+    return value;
+}
+
+/**
+ * Add two numeric values. Plain numbers stay numbers; as soon as a decimal
+ * is involved the sum is computed exactly as a decimal.
+ */
+function addNumeric(a: number | Decimal, b: number | Decimal): number | Decimal {
+    if (typeof a === 'number' && typeof b === 'number') {
+        return a + b;
+    }
+    return Decimal.from(a).add(Decimal.from(b));
+}
+
+/**
+ * Create an accumulator for a user-defined aggregate function, converting
+ * its input and result to the declared types.
+ */
+function userAccumulator(name: string, definition: AggregateFunctionDefinition): Accumulator {
+    const { argType, returnType } = definition;
+    let state = definition.init();
+
+    return {
+        step: (value) => {
+            const input = convertToType(value, argType);
+            if (input === undefined) {
+                throw new Error(`${name} expects ${argType} values, got ${typeName(value)}`);
+            }
+            state = definition.step(state, input);
+        },
+        result: () => {
+            const result = definition.final(state);
+            const value = result === null ? null : convertToType(result, returnType);
+            if (value === undefined) {
+                throw new Error(`Function ${name} returned ${typeName(result)}, but is declared to return ${returnType}`);
+            }
+            return value;
+        },
+    };
+}
+
+/**
+ * Create an accumulator for an aggregate function: a built-in, or else one
+ * registered in the context's function catalog.
+ * Accumulators only ever see non-NULL values.
+ */
+function createAccumulator(name: string, context: EvaluationContext): Accumulator {
+    switch (name) {
+        case 'COUNT': {
+            let count = 0;
+            return {
+                step: () => { count++; },
+                result: () => count,
+            };
+        }
+
+        case 'SUM': {
+            let sum: number | Decimal | null = null;
+            return {
+                step: (value) => {
+                    const input = requireNumber(name, value);
+                    sum = sum === null ? input : addNumeric(sum, input);
+                },
+                result: () => sum,
+            };
+        }
+
+        case 'AVG': {
+            let sum: number | Decimal = 0;
+            let count = 0;
+            return {
+                step: (value) => {
+                    sum = addNumeric(sum, requireNumber(name, value));
+                    count++;
+                },
+                result: () => {
+                    if (count === 0) {
+                        return null;
+                    }
+                    if (sum instanceof Decimal) {
+                        return sum.divide(Decimal.fromNumber(count), sum.getScale());
+                    }
+                    return sum / count;
+                },
+            };
+        }
+
+        case 'MIN':
+        case 'MAX': {
+            let best: Value = null;
+            return {
+                step: (value) => {
+                    if (best === null) {
+                        best = value;
+                        return;
+                    }
+                    const cmp = compareValues(value, best);
+                    if ((name === 'MIN' && cmp < 0) || (name === 'MAX' && cmp > 0)) {
+                        best = value;
+                    }
+                },
+                result: () => best,
+            };
+        }
+
+        default: {
+            const definition = context.functions?.aggregates.get(name);
+            if (!definition) {
+                throw new Error(`Unknown aggregate function: '${name}'`);
+            }
+            return userAccumulator(name, definition);
+        }
+    }
+}
+
+/**
+ * Compute a single aggregate over a group of rows.
+ */
+export function computeAggregate(
+    expr: AggregateExpression,
+    rows: Row[],
+    context: EvaluationContext = {}
+): Value {
+    const accumulator = createAccumulator(expr.name, context);
+
+    if (expr.argument === '*') {
+        for (const _row of rows) {
+            accumulator.step(true);
+        }
+        return accumulator.result();
+    }
+
+    const seen = new Set<string>();
+
+    for (const row of rows) {
+        const value = evaluateExpression(expr.argument, row, context);
+        if (value === null) {
+            continue;
+        }
+
+        if (expr.distinct) {
+            const key = valueKey(value);
+            if (seen.has(key)) {
+                continue;
+            }
+            seen.add(key);
+        }
+
+        accumulator.step(value);
+    }
+
+    return accumulator.result();
+}
+
+/**
+ * Partition rows into groups with equal GROUP BY values.
+ * NULLs are grouped together, as in standard SQL.
+ */
+export function groupRows(
+    rows: Row[],
+    groupBy: Expression[],
+    context: EvaluationContext = {}
+): Row[][] {
+    const groups = new Map<string, Row[]>();
+
+    for (const row of rows) {
+        const key = groupBy
+            .map(expr => valueKey(evaluateExpression(expr, row, context)))
+            .join('|');
+
+        let group = groups.get(key);
+        if (!group) {
+            group = [];
+            groups.set(key, group);
+        }
+        group.push(row);
+    }
+
+    return Array.from(groups.values());
+}
+
+/**
+ * Group rows and compute aggregates, producing one row per group.
+ *
+ * Each output row carries the columns of the group's first input row
+ * (so grouped columns can still be referenced) plus each aggregate value
+ * stored under its display label, e.g. "SUM(amount)".
+ *
+ * Without GROUP BY, all rows form a single group, even when there are none.
+ */
+export function aggregateRows(
+    rows: Row[],
+    groupBy: Expression[],
+    aggregates: AggregateExpression[],
+    context: EvaluationContext = {}
+): Row[] {
+    const groups = groupBy.length > 0 ? groupRows(rows, groupBy, context) : [rows];
+
+    return groups.map(group => {
+        const groupRow: Row = { ...(group[0] ?? {}) };
+        for (const aggregate of aggregates) {
+            groupRow[formatExpression(aggregate)] = computeAggregate(aggregate, group, context);
+        }
+        return groupRow;
+    });
+}
@@ -0,0 +1,1088 @@
+/**
+ * LedgerLite - Expression Evaluator
+ *
+ * Evaluates parsed expression trees against a single row.
+ *
+ * Design decisions:
+ * - Pure functions over the AST (no state, easy to reason about); the
+ *   one function with a side effect, NEXTVAL, reaches the database through
+ *   an optional evaluation context
+ * - SQL three-valued logic: NULL represents "unknown" in boolean context
+ * - Equality between values of different types is simply false;
+ *   ordering comparisons between different types are an error
+ * - INT, REAL and DECIMAL values form one numeric family and compare by
+ *   value; so do DATE and TIMESTAMP (a date is midnight of that day)
+ * - INT/REAL arithmetic is floating point; as soon as a DECIMAL is
+ *   involved it is exact, and the result is a DECIMAL
+ * - Division of two integers truncates toward zero, as in PostgreSQL;
+ *   DECIMAL quotients are rounded half-to-even to at least DIVISION_SCALE
+ *   digits; dividing by zero is an error rather than Infinity
+ * - || concatenates text with a value of any type (converted as by CAST
+ *   to TEXT) but, like arithmetic, yields NULL if either side is NULL
+ * - Arithmetic on dates follows PostgreSQL: date ± integer days,
+ *   date/timestamp ± interval, and the difference of two dates or timestamps
+ * - Column references accept both "column" and "table.column" forms
+ * - Explicit conversions between types (castValue, CAST) are separate from
+ *   the implicit ones: comparisons and arithmetic never parse text
+ * - Built-in scalar functions live in one registry with their signatures,
+ *   so the parser can reject unknown names, wrong argument counts and
+ *   arguments of a known wrong type before a query runs; unless a
+ *   function handles NULL itself (COALESCE), a NULL argument yields NULL
+ * - User-defined functions come from the evaluation context's catalog and
+ *   are adapted to the same shape, converting values to their declared types
+ * - Aggregates are computed by the aggregation stage and stored in each
+ *   group row under their display label; evaluation simply reads them back
+ */
+
+import {
+    Expression,
+    AggregateExpression,
+    ArithmeticOperator,
+    ComparisonOperator,
+    AggregateFunctionDefinition,
+    DataType,
+    FunctionExpression,
+    Row,
+    ScalarFunctionDefinition,
+    Value,
+} from '../types';
+import { Decimal } from '../values/Decimal';
+import {
+    SqlDate,
+    SqlTimestamp,
+    SqlInterval,
+    intervalBetween,
+    ExtractField,
+    TruncateUnit,
+    TRUNCATE_UNITS,
+} from '../values/DateTime';
+
+/**
+ * Minimum number of digits after the decimal point in a DECIMAL quotient.
+ */
+const DIVISION_SCALE = 6;
+
+/**
+ * Binding strength of the binary operators, used to parenthesize nested
+ * expressions when they are rendered as SQL text.
+ */
+const OPERATOR_PRECEDENCE: Record<ArithmeticOperator, number> = {
+    '||': 1,
+    '+': 2,
+    '-': 2,
+    '*': 3,
+    '/': 3,
+    '%': 3,
+};
+
+/**
+ * Functions registered by the application, by upper-case name.
+ */
+export interface FunctionCatalog {
+    scalars: ReadonlyMap<string, ScalarFunction>;
+    aggregates: ReadonlyMap<string, AggregateFunctionDefinition>;
+}
+
+/**
+ * Services an expression may need beyond the row being evaluated.
+ * Expressions without NEXTVAL or user-defined functions evaluate without one.
+ */
+export interface EvaluationContext {
+    /** Advance a sequence and return its new value (NEXTVAL). */
+    nextValue?(sequenceName: string): Value;
+    /** User-defined scalar and aggregate functions. */
+    functions?: FunctionCatalog;
+}
+
+/**
+ * Format a literal value as SQL text.
+ */
+function formatLiteral(value: Value): string {
+    if (value === null) return 'NULL';
+    if (typeof value === 'string') return `'${value.replace(/'/g, "''")}'`;
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+    if (value instanceof SqlDate) return `DATE '${value}'`;
+    if (value instanceof SqlTimestamp) return `TIMESTAMP '${value}'`;
+    if (value instanceof SqlInterval) return `INTERVAL '${value}'`;
+    return String(value);
+}
+
+/**
+ * Get the SQL-facing type name of a value, for error messages.
+ */
+export function typeName(value: Value): string {
+    if (value === null) return 'null';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'real';
+    if (value instanceof Decimal) return 'decimal';
+    if (value instanceof SqlDate) return 'date';
+    if (value instanceof SqlTimestamp) return 'timestamp';
+    if (value instanceof SqlInterval) return 'interval';
+    return typeof value;
+}
+
+/**
+ * Check whether a value belongs to the numeric family (INT, REAL or DECIMAL).
+ */
+function isNumeric(value: Value): value is number | Decimal {
+    return typeof value === 'number' || value instanceof Decimal;
+}
+
+/**
+ * Check whether a value is a point in time (DATE or TIMESTAMP).
+ */
+function isDateTime(value: Value): value is SqlDate | SqlTimestamp {
+    return value instanceof SqlDate || value instanceof SqlTimestamp;
+}
+
+/**
+ * Get the family of types a value can be compared within: 'number' for
+ * INT, REAL and DECIMAL, 'datetime' for DATE and TIMESTAMP, 'interval', or
+ * otherwise the JavaScript type name.
+ */
+export function typeFamily(value: Value): string {
+    if (isNumeric(value)) return 'number';
+    if (isDateTime(value)) return 'datetime';
+    if (value instanceof SqlInterval) return 'interval';
+    return typeof value;
+}
+
+/**
+ * Build a key that is equal for equal values and distinguishes values of
+ * different types (1 vs '1'). Numbers and decimals share keys, so 5 and
+ * 5.00 map to the same hash bucket or group.
+ */
+export function valueKey(value: Value): string {
+    if (value === null) return '__NULL__';
+    if (typeof value === 'number' && Number.isSafeInteger(value)) {
+        return `number:${value}`;
+    }
+    if (isNumeric(value)) {
+        return `number:${Decimal.from(value).normalize().toString()}`;
+    }
+    if (isDateTime(value)) {
+        return `datetime:${value.epochMillis()}`;
+    }
+    if (value instanceof SqlInterval) {
+        return `interval:${value.approximateMillis()}`;
+    }
+    return `${typeof value}:${String(value)}`;
+}
+
+/**
+ * Render an expression as SQL text.
+ * Used as the output column name for computed SELECT items.
+ */
+export function formatExpression(expr: Expression): string {
+    switch (expr.type) {
+        case 'LITERAL':
+            return formatLiteral(expr.value);
+        case 'COLUMN':
+            return expr.column;
+        case 'COMPARISON':
+            return `${formatExpression(expr.left)} ${expr.operator} ${formatExpression(expr.right)}`;
+        case 'ARITHMETIC': {
+            // Operators are left-associative, so a right operand that binds
+            // only as tightly needs parentheses too
+            const precedence = OPERATOR_PRECEDENCE[expr.operator];
+            const left = formatOperand(expr.left, precedence);
+            return `${left} ${expr.operator} ${formatOperand(expr.right, precedence + 1)}`;
+        }
+        case 'NEGATE': {
+            // Parenthesize -(-1) so the two signs never read as a comment
+            const operand = formatOperand(expr.operand, Infinity);
+            return operand.startsWith('-') ? `-(${operand})` : `-${operand}`;
+        }
+        case 'FUNCTION':
+            if (expr.name === 'EXTRACT' && expr.args[0]?.type === 'LITERAL') {
+                return `EXTRACT(${expr.args[0].value} FROM ${formatExpression(expr.args[1])})`;
+            }
+            if (expr.name === 'CAST' && expr.args[1]?.type === 'LITERAL') {
+                const [operand, type, precision, scale] = expr.args;
+                const modifiers = precision ? `(${formatExpression(precision)},${formatExpression(scale)})` : '';
+                return `CAST(${formatExpression(operand)} AS ${type.value}${modifiers})`;
+            }
+            return `${expr.name}(${expr.args.map(formatExpression).join(', ')})`;
+        case 'LOGICAL':
+            return `(${formatExpression(expr.left)} ${expr.operator} ${formatExpression(expr.right)})`;
+        case 'NOT':
+            return `NOT ${formatExpression(expr.operand)}`;
+        case 'IS_NULL':
+            return `${formatExpression(expr.operand)} IS ${expr.negated ? 'NOT ' : ''}NULL`;
+        case 'AGGREGATE': {
+            const argument = expr.argument === '*' ? '*' : formatExpression(expr.argument);
+            return `${expr.name}(${expr.distinct ? 'DISTINCT ' : ''}${argument})`;
+        }
+    }
+}
+
+/**
+ * Render an operand of an operator, in parentheses if it binds more
+ * loosely than `minimum`. Comparisons and NULL tests bind more loosely
+ * than any arithmetic; literals, columns and calls never need them.
+ */
+function formatOperand(expr: Expression, minimum: number): string {
+    const text = formatExpression(expr);
+    const precedence = expr.type === 'ARITHMETIC' ? OPERATOR_PRECEDENCE[expr.operator]
+        : expr.type === 'COMPARISON' || expr.type === 'IS_NULL' || expr.type === 'NOT' ? 0
+        : Infinity;
+    return precedence < minimum ? `(${text})` : text;
+}
+
+/**
+ * Get the direct child expressions of an expression node.
+ */
+function childExpressions(expr: Expression): Expression[] {
+    switch (expr.type) {
+        case 'COMPARISON':
+        case 'ARITHMETIC':
+        case 'LOGICAL':
+            return [expr.left, expr.right];
+        case 'FUNCTION':
+            return expr.args;
+        case 'NOT':
+        case 'NEGATE':
+        case 'IS_NULL':
+            return [expr.operand];
+        case 'AGGREGATE':
+            return expr.argument === '*' ? [] : [expr.argument];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Collect every node in an expression tree that matches a filter.
+ * Matching nodes are not descended into.
+ */
+export function collectExpressions<T extends Expression>(
+    expr: Expression,
+    filter: (node: Expression) => node is T
+): T[] {
+    if (filter(expr)) {
+        return [expr];
+    }
+    return childExpressions(expr).flatMap(child => collectExpressions(child, filter));
+}
+
+/**
+ * Check whether an expression contains an aggregate function call.
+ */
+export function containsAggregate(expr: Expression): boolean {
+    return collectExpressions(
+        expr,
+        (node): node is AggregateExpression => node.type === 'AGGREGATE'
+    ).length > 0;
+}
+
+/**
+ * Resolve a column reference against a row.
+ *
+ * Rows from a single table are keyed by bare column names, while joined rows
+ * are keyed by "table.column" (or "alias.column"). Both forms are accepted
+ * in either case; an unqualified name must match exactly one joined column.
+ */
+export function resolveColumnValue(row: Row, column: string): Value {
+    if (column in row) {
+        return row[column];
+    }
+
+    const dotIndex = column.indexOf('.');
+    if (dotIndex !== -1) {
+        const bare = column.slice(dotIndex + 1);
+        if (bare in row) {
+            return row[bare];
+        }
+        const qualified = column.toLowerCase();
+        for (const key of Object.keys(row)) {
+            if (key.toLowerCase() === qualified) {
+                return row[key];
+            }
+        }
+    } else {
+        const suffix = `.${column}`;
+        const matches = Object.keys(row).filter(key => key.endsWith(suffix));
+        if (matches.length > 1) {
+            throw new Error(`Ambiguous column: '${column}'`);
+        }
+        if (matches.length === 1) {
+            return row[matches[0]];
+        }
+    }
+
+    throw new Error(`Unknown column: '${column}'`);
+}
+
+/**
+ * Compare two non-null values of the same type.
+ * Returns a negative number, zero, or a positive number.
+ */
+export function compareValues(a: Value, b: Value): number {
+    if (isNumeric(a) && isNumeric(b)) {
+        if (typeof a === 'number' && typeof b === 'number') {
+            return a - b;
+        }
+        return Decimal.from(a).compareTo(Decimal.from(b));
+    }
+    if (isDateTime(a) && isDateTime(b)) {
+        return a.epochMillis() - b.epochMillis();
+    }
+    if (a instanceof SqlInterval && b instanceof SqlInterval) {
+        return a.approximateMillis() - b.approximateMillis();
+    }
+
+    if (typeFamily(a) !== typeFamily(b)) {
+        throw new Error(`Cannot compare ${typeName(a)} with ${typeName(b)}`);
+    }
+
+    if (typeof a === 'string' && typeof b === 'string') {
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+    if (typeof a === 'boolean' && typeof b === 'boolean') {
+        return Number(a) - Number(b);
+    }
+
+    return 0;
+}
+
+/**
+ * Total order over non-null values of any type: values are ordered by type
+ * family first, then by value. Used where mixed types must be sorted without
+ * error (index keys, sort-merge join keys).
+ */
+export function compareKeys(a: Value, b: Value): number {
+    const typeA = typeFamily(a);
+    const typeB = typeFamily(b);
+    if (typeA !== typeB) {
+        return typeA < typeB ? -1 : 1;
+    }
+    return compareValues(a, b);
+}
+
+/**
+ * Check two non-null values for equality; values of different type
+ * families are never equal.
+ */
+function valuesEqual(a: Value, b: Value): boolean {
+    return typeFamily(a) === typeFamily(b) && compareValues(a, b) === 0;
+}
+
+/**
+ * Apply an arithmetic operator. NULL in, NULL out.
+ */
+function applyArithmetic(operator: ArithmeticOperator, left: Value, right: Value): Value {
+    if (left === null || right === null) {
+        return null;
+    }
+
+    if (operator === '||') {
+        if (typeof left !== 'string' && typeof right !== 'string') {
+            throw new Error(`Cannot apply '||' to ${typeName(left)} and ${typeName(right)}`);
+        }
+        return `${castValue(left, 'TEXT')}${castValue(right, 'TEXT')}`;
+    }
+    if (operator === '*' || operator === '/' || operator === '%') {
+        return applyMultiplicative(operator, left, right);
+    }
+
+    const sign = operator === '+' ? 1 : -1;
+
+    if (isNumeric(left) && isNumeric(right)) {
+        if (typeof left === 'number' && typeof right === 'number') {
+            return left + sign * right;
+        }
+        const a = Decimal.from(left);
+        const b = Decimal.from(right);
+        return operator === '+' ? a.add(b) : a.subtract(b);
+    }
+
+    // date ± integer days
+    if (left instanceof SqlDate && typeof right === 'number' && Number.isInteger(right)) {
+        return left.addDays(sign * right);
+    }
+    if (operator === '+' && typeof left === 'number' && Number.isInteger(left) && right instanceof SqlDate) {
+        return right.addDays(left);
+    }
+
+    // date/timestamp ± interval
+    if (isDateTime(left) && right instanceof SqlInterval) {
+        return left.addInterval(operator === '+' ? right : right.negate());
+    }
+    if (operator === '+' && left instanceof SqlInterval && isDateTime(right)) {
+        return right.addInterval(left);
+    }
+
+    // interval ± interval
+    if (left instanceof SqlInterval && right instanceof SqlInterval) {
+        return left.add(operator === '+' ? right : right.negate());
+    }
+
+    // Differences: date - date is a number of days, otherwise an interval
+    if (operator === '-' && left instanceof SqlDate && right instanceof SqlDate) {
+        return left.daysSince(right);
+    }
+    if (operator === '-' && isDateTime(left) && isDateTime(right)) {
+        return intervalBetween(left.epochMillis(), right.epochMillis());
+    }
+
+    throw new Error(`Cannot apply '${operator}' to ${typeName(left)} and ${typeName(right)}`);
+}
+
+/**
+ * Apply *, / or % to two non-null values, which must be numeric.
+ */
+function applyMultiplicative(operator: '*' | '/' | '%', left: Value, right: Value): Value {
+    if (!isNumeric(left) || !isNumeric(right)) {
+        throw new Error(`Cannot apply '${operator}' to ${typeName(left)} and ${typeName(right)}`);
+    }
+
+    if (typeof left === 'number' && typeof right === 'number') {
+        if (operator === '*') {
+            return left * right;
+        }
+        if (right === 0) {
+            throw new Error('Division by zero');
+        }
+        if (operator === '%') {
+            return left % right;
+        }
+        return Number.isInteger(left) && Number.isInteger(right)
+            ? Math.trunc(left / right)
+            : left / right;
+    }
+
+    const a = Decimal.from(left);
+    const b = Decimal.from(right);
+    switch (operator) {
+        case '*':
+            return a.multiply(b);
+        case '/':
+            return a.divide(b, Math.max(a.getScale(), b.getScale(), DIVISION_SCALE));
+        case '%':
+            return a.remainder(b);
+    }
+}
+
+/**
+ * Negate a number, decimal or interval. NULL in, NULL out.
+ */
+function negate(value: Value): Value {
+    if (value === null) {
+        return null;
+    }
+    if (typeof value === 'number') {
+        return -value;
+    }
+    if (value instanceof Decimal || value instanceof SqlInterval) {
+        return value.negate();
+    }
+    throw new Error(`Cannot negate ${typeName(value)}`);
+}
+
+/**
+ * Type families a function argument can be required to have (see
+ * typeFamily); 'any' accepts every type.
+ */
+type ArgumentFamily = 'string' | 'number' | 'boolean' | 'datetime' | 'any';
+
+/** How argument families are described in error messages. */
+const FAMILY_DESCRIPTIONS: Record<ArgumentFamily, string> = {
+    string: 'a string',
+    number: 'a number',
+    boolean: 'a boolean',
+    datetime: 'a date or timestamp',
+    any: 'any value',
+};
+
+/** Type family of each data type, for CAST and user-defined functions. */
+const DATA_TYPE_FAMILIES: Record<DataType, ArgumentFamily> = {
+    INT: 'number',
+    REAL: 'number',
+    DECIMAL: 'number',
+    TEXT: 'string',
+    BOOL: 'boolean',
+    DATE: 'datetime',
+    TIMESTAMP: 'datetime',
+};
+
+/**
+ * A scalar function: a built-in, or a user-defined function wrapped by
+ * userScalarFunction.
+ *
+ * Arguments are checked against `args` before `call` runs (the last entry
+ * repeats for a variadic function). Unless `acceptsNull` is set, a NULL
+ * argument makes the result NULL without calling the function.
+ */
+export interface ScalarFunction {
+    args: ArgumentFamily[];
+    /** Fewest arguments accepted, when trailing ones are optional. */
+    minArgs?: number;
+    variadic?: boolean;
+    acceptsNull?: boolean;
+    /** Result family, where it does not depend on the arguments. */
+    returns?: string;
+    /**
+     * Results may differ between calls (NOW) or calls may have side effects
+     * (NEXTVAL), so the parser never evaluates the call ahead of time.
+     */
+    volatile?: boolean;
+    call(args: Value[], context: EvaluationContext): Value;
+}
+
+/**
+ * Read an integer argument (a whole INT, REAL or DECIMAL value).
+ */
+function integerArgument(name: string, value: Value): number {
+    const number = value instanceof Decimal ? value.toNumber() : value;
+    if (typeof number !== 'number' || !Number.isSafeInteger(number)) {
+        throw new Error(`${name} expects an integer, got ${formatLiteral(value)}`);
+    }
+    return number;
+}
+
+/**
+ * Remove the given characters from both ends of a string.
+ */
+function trimCharacters(text: string, characters: string): string {
+    const set = new Set(Array.from(characters));
+    const chars = Array.from(text);
+    let start = 0;
+    let end = chars.length;
+    while (start < end && set.has(chars[start])) start++;
+    while (end > start && set.has(chars[end - 1])) end--;
+    return chars.slice(start, end).join('');
+}
+
+/**
+ * Built-in scalar functions by name. String positions and lengths count
+ * characters (code points), and positions start at 1.
+ */
+export const BUILTIN_FUNCTIONS: Record<string, ScalarFunction> = {
+    // Dates and sequences
+    NOW: {
+        args: [],
+        returns: 'datetime',
+        volatile: true,
+        call: () => SqlTimestamp.now(),
+    },
+    NEXTVAL: {
+        args: ['string'],
+        returns: 'number',
+        volatile: true,
+        call: ([sequenceName], context) => {
+            if (!context.nextValue) {
+                throw new Error('NEXTVAL is not allowed here');
+            }
+            return context.nextValue(sequenceName as string);
+        },
+    },
+    DATE_TRUNC: {
+        args: ['string', 'datetime'],
+        call: ([unit, value]) => {
+            const lower = (unit as string).toLowerCase() as TruncateUnit;
+            if (!TRUNCATE_UNITS.includes(lower)) {
+                throw new Error(`DATE_TRUNC unit must be one of ${TRUNCATE_UNITS.join(', ')}, got ${formatLiteral(unit)}`);
+            }
+            return (value as SqlDate | SqlTimestamp).truncate(lower);
+        },
+    },
+    EXTRACT: {
+        args: ['string', 'datetime'],
+        returns: 'number',
+        call: ([field, value]) => (value as SqlDate | SqlTimestamp).extract(field as ExtractField),
+    },
+
+    // Text
+    UPPER: {
+        args: ['string'],
+        returns: 'string',
+        call: ([text]) => (text as string).toUpperCase(),
+    },
+    LOWER: {
+        args: ['string'],
+        returns: 'string',
+        call: ([text]) => (text as string).toLowerCase(),
+    },
+    LENGTH: {
+        args: ['string'],
+        returns: 'number',
+        call: ([text]) => Array.from(text as string).length,
+    },
+    SUBSTR: {
+        args: ['string', 'number', 'number'],
+        minArgs: 2,
+        returns: 'string',
+        call: ([text, start, length]) => {
+            const chars = Array.from(text as string);
+            const from = integerArgument('SUBSTR', start) - 1;
+            if (length === undefined) {
+                return chars.slice(Math.max(from, 0)).join('');
+            }
+            const count = integerArgument('SUBSTR', length);
+            if (count < 0) {
+                throw new Error(`SUBSTR length must not be negative, got ${count}`);
+            }
+            return chars.slice(Math.max(from, 0), Math.max(from + count, 0)).join('');
+        },
+    },
+    TRIM: {
+        args: ['string', 'string'],
+        minArgs: 1,
+        returns: 'string',
+        call: ([text, characters = ' ']) => trimCharacters(text as string, characters as string),
+    },
+    REPLACE: {
+        args: ['string', 'string', 'string'],
+        returns: 'string',
+        call: ([text, search, replacement]) => search === ''
+            ? text
+            : (text as string).split(search as string).join(replacement as string),
+    },
+
+    // Numbers
+    ABS: {
+        args: ['number'],
+        returns: 'number',
+        call: ([value]) => {
+            const negative = value instanceof Decimal ? value.compareTo(Decimal.from(0)) < 0 : (value as number) < 0;
+            return negative ? negate(value) : value;
+        },
+    },
+    ROUND: {
+        args: ['number', 'number'],
+        minArgs: 1,
+        returns: 'number',
+        call: ([value, digits = 0]) => {
+            const places = integerArgument('ROUND', digits);
+            if (places < 0) {
+                throw new Error(`ROUND digits must not be negative, got ${places}`);
+            }
+            if (value instanceof Decimal) {
+                return value.rescale(places);
+            }
+            return Number.isInteger(value) ? value : Decimal.fromNumber(value as number).rescale(places).toNumber();
+        },
+    },
+    MOD: {
+        args: ['number', 'number'],
+        returns: 'number',
+        call: ([dividend, divisor]) => applyMultiplicative('%', dividend, divisor),
+    },
+
+    // NULL handling
+    COALESCE: {
+        args: ['any'],
+        variadic: true,
+        acceptsNull: true,
+        call: (args) => args.find(value => value !== null) ?? null,
+    },
+    IFNULL: {
+        args: ['any', 'any'],
+        acceptsNull: true,
+        call: ([value, fallback]) => value === null ? fallback : value,
+    },
+    NULLIF: {
+        args: ['any', 'any'],
+        acceptsNull: true,
+        call: ([value, other]) => value !== null && other !== null && valuesEqual(value, other) ? null : value,
+    },
+
+    // CAST(x AS type) is parsed to CAST(x, 'type'), with precision and
+    // scale following for DECIMAL(p,s)
+    CAST: {
+        args: ['any', 'string', 'number', 'number'],
+        minArgs: 2,
+        call: ([value, type, precision, scale]) => {
+            const result = castValue(value, type as DataType);
+            if (!(result instanceof Decimal) || precision === undefined) {
+                return result;
+            }
+            const rounded = result.rescale(scale as number);
+            if (rounded.integerDigits() > (precision as number) - (scale as number)) {
+                throw new Error(`Numeric overflow: value ${result} does not fit DECIMAL(${precision},${scale})`);
+            }
+            return rounded;
+        },
+    },
+};
+
+/**
+ * Convert a value to a declared parameter or result type of a user-defined
+ * function. Numbers convert within their family (an integral value to INT)
+ * and a DATE to TIMESTAMP; nothing else converts, and text is never parsed.
+ * @returns The converted value, or undefined if the value does not fit
+ */
+export function convertToType(value: Value, type: DataType): Value | undefined {
+    switch (type) {
+        case 'INT': {
+            const number = value instanceof Decimal ? value.toNumber() : value;
+            return typeof number === 'number' && Number.isSafeInteger(number) ? number : undefined;
+        }
+        case 'REAL':
+            if (value instanceof Decimal) return value.toNumber();
+            return typeof value === 'number' ? value : undefined;
+        case 'DECIMAL':
+            if (value instanceof Decimal) return value;
+            return typeof value === 'number' && Number.isFinite(value) ? Decimal.fromNumber(value) : undefined;
+        case 'TEXT':
+            return typeof value === 'string' ? value : undefined;
+        case 'BOOL':
+            return typeof value === 'boolean' ? value : undefined;
+        case 'DATE':
+            return value instanceof SqlDate ? value : undefined;
+        case 'TIMESTAMP':
+            if (value instanceof SqlDate) return value.toTimestamp();
+            return value instanceof SqlTimestamp ? value : undefined;
+    }
+}
+
+/**
+ * Wrap a user-defined scalar function in the form the evaluator calls.
+ * Its arguments and result are converted to the declared types, and it is
+ * treated as volatile since it may have side effects.
+ */
+export function userScalarFunction(name: string, definition: ScalarFunctionDefinition): ScalarFunction {
+    const { argTypes, returnType } = definition;
+
+    return {
+        args: argTypes.map(type => DATA_TYPE_FAMILIES[type]),
+        returns: DATA_TYPE_FAMILIES[returnType],
+        volatile: true,
+        call: (args) => {
+            const converted = args.map((arg, i) => {
+                const value = convertToType(arg, argTypes[i]);
+                if (value === undefined) {
+                    const position = argTypes.length > 1 ? ` as argument ${i + 1}` : '';
+                    throw new Error(`${name} expects ${argTypes[i]}${position}, got ${typeName(arg)}`);
+                }
+                return value;
+            });
+
+            const result = definition.call(...converted);
+            const value = result === null ? null : convertToType(result, returnType);
+            if (value === undefined) {
+                throw new Error(`Function ${name} returned ${typeName(result)}, but is declared to return ${returnType}`);
+            }
+            return value;
+        },
+    };
+}
+
+/**
+ * Describe the argument count a function accepts, e.g. "1 to 2".
+ */
+function describeArity(fn: ScalarFunction): string {
+    const min = fn.minArgs ?? fn.args.length;
+    if (fn.variadic) {
+        return `at least ${min}`;
+    }
+    return min === fn.args.length ? `${min}` : `${min} to ${fn.args.length}`;
+}
+
+/**
+ * Check that an argument of the given type family (undefined when it is
+ * NULL or not known) fits the function's signature.
+ * @param actual - The argument's type, as named in the error message
+ */
+function checkArgumentFamily(name: string, fn: ScalarFunction, index: number, family: string | undefined, actual: string): void {
+    const expected = fn.args[Math.min(index, fn.args.length - 1)];
+    if (expected !== 'any' && family !== undefined && family !== expected) {
+        const position = fn.args.length > 1 ? ` as argument ${index + 1}` : '';
+        throw new Error(`${name} expects ${FAMILY_DESCRIPTIONS[expected]}${position}, got ${actual}`);
+    }
+}
+
+/**
+ * Get the type family an expression is known to have without evaluating
+ * it, or undefined if that depends on the row.
+ */
+function staticFamily(expr: Expression, functions?: FunctionCatalog): string | undefined {
+    switch (expr.type) {
+        case 'LITERAL':
+            return expr.value === null ? undefined : typeFamily(expr.value);
+        case 'FUNCTION':
+            if (expr.name === 'CAST' && expr.args[1]?.type === 'LITERAL') {
+                return DATA_TYPE_FAMILIES[expr.args[1].value as DataType];
+            }
+            return findFunction(expr.name, functions)?.returns;
+        case 'ARITHMETIC':
+            return expr.operator === '||' ? 'string' : undefined;
+        case 'COMPARISON':
+        case 'LOGICAL':
+        case 'NOT':
+        case 'IS_NULL':
+            return 'boolean';
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Look up a scalar function by (upper-case) name: a built-in, or else one
+ * registered in the catalog.
+ */
+function findFunction(name: string, functions?: FunctionCatalog): ScalarFunction | undefined {
+    return BUILTIN_FUNCTIONS[name] ?? functions?.scalars.get(name);
+}
+
+/**
+ * Check a function call before it is ever evaluated: the function must
+ * exist, take that many arguments, and accept the types of the arguments
+ * whose types are already known. A call whose arguments are all literals
+ * is evaluated once, so errors such as CAST('abc' AS INT) surface early.
+ * @param functions - User-defined functions that may be called
+ * @returns An error message, or undefined if no problem was found
+ */
+export function checkFunctionCall(call: FunctionExpression, functions?: FunctionCatalog): string | undefined {
+    const fn = findFunction(call.name, functions);
+    if (!fn) {
+        return `Unknown function: '${call.name}'`;
+    }
+
+    const count = call.args.length;
+    if (count < (fn.minArgs ?? fn.args.length) || (!fn.variadic && count > fn.args.length)) {
+        return `${call.name} expects ${describeArity(fn)} argument(s), got ${count}`;
+    }
+
+    try {
+        call.args.forEach((arg, i) => {
+            const family = staticFamily(arg, functions);
+            checkArgumentFamily(call.name, fn, i, family, family ?? '');
+        });
+        if (!fn.volatile && call.args.every(arg => arg.type === 'LITERAL')) {
+            evaluateExpression(call, {});
+        }
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+    return undefined;
+}
+
+/**
+ * Call a scalar function with evaluated arguments.
+ */
+function callFunction(name: string, args: Value[], context: EvaluationContext): Value {
+    const fn = findFunction(name, context.functions);
+    if (!fn) {
+        throw new Error(`Unknown function: '${name}'`);
+    }
+    if (!fn.acceptsNull && args.some(arg => arg === null)) {
+        return null;
+    }
+    args.forEach((arg, i) => checkArgumentFamily(name, fn, i, arg === null ? undefined : typeFamily(arg), typeName(arg)));
+    return fn.call(args, context);
+}
+
+/**
+ * Apply a comparison operator using three-valued logic.
+ */
+function compare(operator: ComparisonOperator, left: Value, right: Value): Value {
+    if (left === null || right === null) {
+        return null;
+    }
+
+    switch (operator) {
+        case '=':
+            return valuesEqual(left, right);
+        case '<>':
+        case '!=':
+            return !valuesEqual(left, right);
+        case '<':
+            return compareValues(left, right) < 0;
+        case '>':
+            return compareValues(left, right) > 0;
+        case '<=':
+            return compareValues(left, right) <= 0;
+        case '>=':
+            return compareValues(left, right) >= 0;
+    }
+}
+
+/**
+ * Coerce a value to a SQL truth value (TRUE, FALSE, or NULL for unknown).
+ */
+function toTruthValue(value: Value): boolean | null {
+    if (value === null) {
+        return null;
+    }
+    if (typeof value !== 'boolean') {
+        throw new Error(`Expected boolean expression, got ${typeName(value)}`);
+    }
+    return value;
+}
+
+/** Text accepted as TRUE / FALSE when converting to BOOL. */
+const TRUE_TEXT = new Set(['true', 't', 'yes', 'y', '1']);
+const FALSE_TEXT = new Set(['false', 'f', 'no', 'n', '0']);
+
+/**
+ * Convert a value to another type (ALTER COLUMN ... TYPE and CAST). NULL stays NULL.
+ * - Numbers convert between INT, REAL and DECIMAL; INT rounds half-to-even
+ * - Any value converts to TEXT, and TEXT parses as any type
+ * - BOOL converts to and from INT (1 / 0)
+ * - TIMESTAMP converts to DATE by dropping the time, DATE to TIMESTAMP
+ *   as midnight
+ * The result may still need the column's own checks (e.g. DECIMAL precision).
+ */
+export function castValue(value: Value, type: DataType): Value {
+    if (value === null) {
+        return null;
+    }
+
+    const fail = (): never => {
+        throw new Error(`Cannot convert ${typeName(value)} ${formatLiteral(value)} to ${type}`);
+    };
+
+    switch (type) {
+        case 'TEXT':
+            return typeof value === 'boolean' ? String(value) : value.toString();
+
+        case 'INT': {
+            if (typeof value === 'boolean') {
+                return value ? 1 : 0;
+            }
+            if (typeof value === 'number' && Number.isInteger(value)) {
+                return value;
+            }
+            const decimal = toDecimal(value) ?? fail();
+            const result = decimal.rescale(0).toNumber();
+            return Number.isSafeInteger(result) ? result : fail();
+        }
+
+        case 'REAL': {
+            const decimal = typeof value === 'number' ? value : toDecimal(value)?.toNumber();
+            return decimal ?? fail();
+        }
+
+        case 'DECIMAL':
+            return toDecimal(value) ?? fail();
+
+        case 'BOOL':
+            if (typeof value === 'boolean') {
+                return value;
+            }
+            if (typeof value === 'number' && Number.isInteger(value)) {
+                return value !== 0;
+            }
+            if (typeof value === 'string') {
+                const text = value.trim().toLowerCase();
+                if (TRUE_TEXT.has(text)) return true;
+                if (FALSE_TEXT.has(text)) return false;
+            }
+            return fail();
+
+        case 'DATE':
+            if (value instanceof SqlDate) {
+                return value;
+            }
+            if (value instanceof SqlTimestamp) {
+                return SqlDate.fromEpochMillis(value.epochMillis());
+            }
+            return typeof value === 'string' ? SqlDate.parse(value) : fail();
+
+        case 'TIMESTAMP':
+            if (value instanceof SqlTimestamp) {
+                return value;
+            }
+            if (value instanceof SqlDate) {
+                return value.toTimestamp();
+            }
+            return typeof value === 'string' ? SqlTimestamp.parse(value) : fail();
+    }
+}
+
+/**
+ * Convert a number, decimal or numeric text to a decimal (undefined if it
+ * is none of these).
+ */
+function toDecimal(value: Value): Decimal | undefined {
+    if (value instanceof Decimal) {
+        return value;
+    }
+    if (typeof value === 'number') {
+        return Number.isFinite(value) ? Decimal.fromNumber(value) : undefined;
+    }
+    if (typeof value === 'string') {
+        try {
+            return Decimal.parse(value);
+        } catch {
+            return undefined;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Evaluate an expression against a row.
+ */
+export function evaluateExpression(expr: Expression, row: Row, context: EvaluationContext = {}): Value {
+    switch (expr.type) {
+        case 'LITERAL':
+            return expr.value;
+
+        case 'COLUMN':
+            return resolveColumnValue(row, expr.column);
+
+        case 'COMPARISON':
+            return compare(
+                expr.operator,
+                evaluateExpression(expr.left, row, context),
+                evaluateExpression(expr.right, row, context)
+            );
+
+        case 'ARITHMETIC':
+            return applyArithmetic(
+                expr.operator,
+                evaluateExpression(expr.left, row, context),
+                evaluateExpression(expr.right, row, context)
+            );
+
+        case 'NEGATE':
+            return negate(evaluateExpression(expr.operand, row, context));
+
+        case 'FUNCTION':
+            return callFunction(expr.name, expr.args.map(arg => evaluateExpression(arg, row, context)), context);
+
+        case 'LOGICAL': {
+            const left = toTruthValue(evaluateExpression(expr.left, row, context));
+
+            // Short-circuit where the result no longer depends on the right side
+            if (expr.operator === 'AND' && left === false) return false;
+            if (expr.operator === 'OR' && left === true) return true;
+
+            const right = toTruthValue(evaluateExpression(expr.right, row, context));
+
+            if (expr.operator === 'AND') {
+                if (right === false) return false;
+                return left === null || right === null ? null : true;
+            }
+            if (right === true) return true;
+            return left === null || right === null ? null : false;
+        }
+
+        case 'NOT': {
+            const operand = toTruthValue(evaluateExpression(expr.operand, row, context));
+            return operand === null ? null : !operand;
+        }
+
+        case 'IS_NULL': {
+            const isNull = evaluateExpression(expr.operand, row, context) === null;
+            return expr.negated ? !isNull : isNull;
+        }
+
+        case 'AGGREGATE': {
+            const label = formatExpression(expr);
+            if (!(label in row)) {
+                throw new Error(`Aggregate function ${label} is not allowed here`);
+            }
+            return row[label];
+        }
+    }
+}
+
+/**
+ * Evaluate a boolean expression as a row filter.
+ * Only TRUE keeps a row; FALSE and NULL (unknown) both reject it.
+ */
+export function evaluatePredicate(expr: Expression, row: Row, context: EvaluationContext = {}): boolean {
+    return toTruthValue(evaluateExpression(expr, row, context)) === true;
+}
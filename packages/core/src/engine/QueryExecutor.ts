@@ -6,20 +6,79 @@
  * Design decisions:
  * - Separates parsing from execution (clean architecture)
  * - Returns structured results for easy consumption
- * - Uses indexes automatically when WHERE targets a PRIMARY KEY
+ * - Picks a join algorithm per join (nested loop with index, hash or
+ *   sort-merge) from the input sizes and the indexes available
+ * - Uses indexes automatically: hash or B-tree lookups for equalities
+ *   (composite key lookups when every key column is fixed by one),
+ *   B-tree range scans for <, <=, >, >=, ordered B-tree scans for ORDER BY
+ *   on an indexed column, and the B-tree's ends for MIN/MAX
  * - Provides clear error messages
+ * - Each write statement is atomic: if it fails part-way, its changes are
+ *   rolled back (inside an explicit transaction, only that statement's)
  */
 
 import { Database } from '../storage/Database';
 import { Table } from '../storage/Table';
 import { Parser } from '../parser/Parser';
-import { innerJoin } from '../join/JoinEngine';
+import { joinAll, JoinStats, JoinStrategy } from '../join/JoinEngine';
+import {
+    evaluateExpression,
+    evaluatePredicate,
+    resolveColumnValue,
+    compareValues,
+    collectExpressions,
+    containsAggregate,
+    formatExpression,
+} from './ExpressionEvaluator';
+import { aggregateRows } from './Aggregator';
+import { BTreeIndex } from '../index/BTreeIndex';
+import { CompositeIndex } from '../index/CompositeIndex';
+
+/**
+ * A comparison between a column and a non-NULL literal, normalized so the
+ * column is on the left (e.g. "5 < id" becomes "id > 5").
+ */
+interface IndexTerm {
+    column: string;
+    operator: ComparisonOperator;
+    value: Value;
+}
+
+/**
+ * Below this many row pairs, a plain nested-loop join is cheaper than
+ * building a hash table or sorting.
+ */
+const NESTED_LOOP_MAX_PAIRS = 10_000;
+
+/**
+ * Comparison operators mirrored for when the literal is on the left.
+ */
+const FLIPPED_OPERATORS: Partial<Record<ComparisonOperator, ComparisonOperator>> = {
+    '=': '=',
+    '<': '>',
+    '<=': '>=',
+    '>': '<',
+    '>=': '<=',
+};
 import {
     ParsedStatement,
+    TransactionStatement,
     ExecutionResult,
     QueryResult,
     Row,
     WhereCondition,
+    OrderByItem,
+    SelectItem,
+    SelectStatement,
+    OnConflictClause,
+    ColumnDefinition,
+    ForeignKeyDefinition,
+    TableSchema,
+    Expression,
+    ColumnExpression,
+    AggregateExpression,
+    ComparisonOperator,
+    RangeBound,
     Value,
 } from '../types';
 
@@ -35,7 +94,7 @@ export class QueryExecutor {
      */
     execute(sql: string): ExecutionResult {
         try {
-            const parser = new Parser(sql);
+            const parser = new Parser(sql, this.database.getFunctions());
             const statement = parser.parse();
             return this.executeStatement(statement);
         } catch (error) {
@@ -53,19 +112,37 @@ export class QueryExecutor {
         try {
             switch (statement.type) {
                 case 'CREATE_TABLE':
-                    return this.executeCreateTable(statement);
+                    return this.database.transaction(() => this.executeCreateTable(statement));
+                case 'ALTER_TABLE':
+                    return this.database.transaction(() => this.executeAlterTable(statement));
+                case 'DROP_TABLE':
+                    return this.database.transaction(() => this.executeDropTable(statement));
+                case 'TRUNCATE':
+                    return this.database.transaction(() => this.executeTruncate(statement));
                 case 'INSERT':
-                    return this.executeInsert(statement);
+                    return this.database.transaction(() => this.executeInsert(statement));
                 case 'SELECT':
                     return this.executeSelect(statement);
                 case 'UPDATE':
-                    return this.executeUpdate(statement);
+                    return this.database.transaction(() => this.executeUpdate(statement));
                 case 'DELETE':
-                    return this.executeDelete(statement);
+                    return this.database.transaction(() => this.executeDelete(statement));
                 case 'SHOW_TABLES':
                     return this.executeShowTables();
                 case 'DESCRIBE':
                     return this.executeDescribe(statement);
+                case 'CREATE_INDEX':
+                    return this.database.transaction(() => this.executeCreateIndex(statement));
+                case 'DROP_INDEX':
+                    return this.database.transaction(() => this.executeDropIndex(statement));
+                case 'CREATE_SEQUENCE':
+                    return this.database.transaction(() => this.executeCreateSequence(statement));
+                case 'DROP_SEQUENCE':
+                    return this.database.transaction(() => this.executeDropSequence(statement));
+                case 'BEGIN':
+                case 'COMMIT':
+                case 'ROLLBACK':
+                    return this.executeTransactionControl(statement);
                 default:
                     return {
                         success: false,
@@ -84,9 +161,19 @@ export class QueryExecutor {
      * Execute CREATE TABLE.
      */
     private executeCreateTable(statement: ParsedStatement & { type: 'CREATE_TABLE' }): ExecutionResult {
+        if (statement.ifNotExists && this.database.hasTable(statement.tableName)) {
+            return {
+                success: true,
+                message: `Table '${statement.tableName}' already exists, skipped`,
+            };
+        }
+
         const schema = {
             tableName: statement.tableName,
             columns: statement.columns,
+            primaryKey: statement.primaryKey,
+            uniqueKeys: statement.uniqueKeys,
+            foreignKeys: statement.foreignKeys,
         };
 
         this.database.createTable(schema);
@@ -98,69 +185,255 @@ export class QueryExecutor {
     }
 
     /**
-     * Execute INSERT.
+     * Execute ALTER TABLE.
      */
-    private executeInsert(statement: ParsedStatement & { type: 'INSERT' }): ExecutionResult {
-        const table = this.getTable(statement.tableName);
-        const rowId = table.insert(statement.columns, statement.values);
+    private executeAlterTable(statement: ParsedStatement & { type: 'ALTER_TABLE' }): ExecutionResult {
+        const table = this.database.alterTable(statement.tableName, statement.action);
+        const { action } = statement;
+
+        let message: string;
+        switch (action.type) {
+            case 'ADD_COLUMN':
+                message = `Column '${action.column.name}' added to table '${table.getName()}'`;
+                break;
+            case 'DROP_COLUMN':
+                message = `Column '${action.columnName}' dropped from table '${table.getName()}'`;
+                break;
+            case 'RENAME_COLUMN':
+                message = `Column '${action.columnName}' renamed to '${action.newName}'`;
+                break;
+            case 'RENAME_TABLE':
+                message = `Table '${statement.tableName}' renamed to '${table.getName()}'`;
+                break;
+            case 'ALTER_COLUMN_TYPE':
+                message = `Column '${action.columnName}' changed to ${this.formatDataType(table.getColumn(action.columnName)!)}`;
+                break;
+        }
+
+        return { success: true, message };
+    }
+
+    /**
+     * Execute DROP TABLE.
+     */
+    private executeDropTable(statement: ParsedStatement & { type: 'DROP_TABLE' }): ExecutionResult {
+        if (!this.database.dropTable(statement.tableName)) {
+            if (statement.ifExists) {
+                return {
+                    success: true,
+                    message: `Table '${statement.tableName}' does not exist, skipped`,
+                };
+            }
+            throw new Error(`Table '${statement.tableName}' does not exist`);
+        }
 
         return {
             success: true,
-            message: `1 row inserted (id: ${rowId})`,
-            rowCount: 1,
+            message: `Table '${statement.tableName}' dropped`,
         };
     }
 
     /**
-     * Execute SELECT.
+     * Execute TRUNCATE.
+     */
+    private executeTruncate(statement: ParsedStatement & { type: 'TRUNCATE' }): ExecutionResult {
+        const removed = this.database.truncateTable(statement.tableName);
+
+        return {
+            success: true,
+            message: `Table '${statement.tableName}' truncated (${removed} row(s) removed)`,
+            rowCount: removed,
+        };
+    }
+
+    /**
+     * Execute INSERT ... VALUES or INSERT ... SELECT.
+     * The statement runs in one transaction, so a row that fails leaves
+     * none of the rows inserted. The SELECT is read in full before the
+     * first insert, so it never sees the rows being added.
      */
-    private executeSelect(statement: ParsedStatement & { type: 'SELECT' }): ExecutionResult {
+    private executeInsert(statement: ParsedStatement & { type: 'INSERT' }): ExecutionResult {
         const table = this.getTable(statement.tableName);
+        const context = this.database.getEvaluationContext();
+        const rows = statement.select
+            ? this.selectValues(statement.select, statement.columns.length)
+            : (statement.values ?? []).map(row => row.map(expr => evaluateExpression(expr, {}, context)));
 
-        // Handle JOIN
-        if (statement.join) {
-            const rightTable = this.getTable(statement.join.table);
-            const joinResult = innerJoin(
-                table,
-                rightTable,
-                statement.join,
-                statement.columns
-            );
+        if (statement.onConflict) {
+            return this.executeUpsert(table, statement, rows, statement.onConflict);
+        }
+
+        const rowIds = rows.map(values => table.insert(statement.columns, values));
+
+        return this.writeResult(
+            table,
+            statement.returning,
+            rowIds.map(rowId => ({ ...table.getRowById(rowId)!.data })),
+            rowIds.length === 1
+                ? `1 row inserted (id: ${rowIds[0]})`
+                : `${rowIds.length} row(s) inserted`
+        );
+    }
 
-            let rows = joinResult.rows;
+    /**
+     * Insert rows with an ON CONFLICT clause. A row that collides with an
+     * existing row on the conflict key is skipped (DO NOTHING) or turns
+     * into an update of that row (DO UPDATE). As in PostgreSQL, one
+     * statement may not update a row it inserted or updated itself.
+     */
+    private executeUpsert(
+        table: Table,
+        statement: ParsedStatement & { type: 'INSERT' },
+        rows: Value[][],
+        onConflict: OnConflictClause
+    ): ExecutionResult {
+        const touched = new Set<number>();
+        const affected: Row[] = [];
+        let inserted = 0;
+        let updated = 0;
 
-            // Apply WHERE filter if present
-            if (statement.where) {
-                const predicate = this.createPredicate(statement.where);
-                rows = rows.filter(predicate);
+        for (const values of rows) {
+            const result = table.insertOrConflict(statement.columns, values, onConflict.columns);
+            if ('rowId' in result) {
+                touched.add(result.rowId);
+                affected.push({ ...table.getRowById(result.rowId)!.data });
+                inserted++;
+                continue;
+            }
+            if (onConflict.action === 'NOTHING') {
+                continue;
             }
 
-            return {
-                success: true,
-                rows,
-                rowCount: rows.length,
-                columns: joinResult.columns,
-            };
+            const rowId = result.existing._rowId;
+            if (touched.has(rowId)) {
+                throw new Error('ON CONFLICT DO UPDATE cannot change the same row twice in one statement');
+            }
+
+            // Assignments see the existing row's columns and the proposed
+            // row as excluded.<column>
+            const scope: Row = { ...result.existing.data };
+            for (const [column, value] of Object.entries(result.proposed)) {
+                scope[`excluded.${column}`] = value;
+            }
+
+            affected.push(table.updateRow(rowId, this.evaluateAssignments(onConflict.set ?? {}, scope)));
+
+            touched.add(rowId);
+            updated++;
         }
 
-        // Simple SELECT (no JOIN)
+        const outcome = onConflict.action === 'UPDATE'
+            ? `${updated} updated`
+            : `${rows.length - inserted} skipped`;
+
+        return this.writeResult(
+            table,
+            statement.returning,
+            affected,
+            `${inserted} row(s) inserted, ${outcome}`
+        );
+    }
+
+    /**
+     * Run the SELECT of an INSERT ... SELECT and return its rows as value
+     * lists in select-list order.
+     */
+    private selectValues(select: SelectStatement, columnCount: number): Value[][] {
+        const result = this.executeSelect(select);
+        const columns = result.columns ?? [];
+
+        if (columns.length !== columnCount) {
+            throw new Error(
+                `INSERT names ${columnCount} column(s) but the SELECT returns ${columns.length}`
+            );
+        }
+
+        return (result.rows ?? []).map(row => columns.map(column => row[column]));
+    }
+
+    /**
+     * Execute SELECT.
+     *
+     * Rows flow through: scan/join → WHERE → GROUP BY/HAVING → ORDER BY →
+     * OFFSET/LIMIT → projection.
+     * Projection happens last so ORDER BY may reference columns that are
+     * not in the select list.
+     */
+    private executeSelect(statement: ParsedStatement & { type: 'SELECT' }): QueryResult {
+        const table = this.getTable(statement.tableName);
+        const predicate = statement.where
+            ? this.createWherePredicate(statement.where)
+            : undefined;
+
         let rows: Row[];
-        const columns = statement.columns;
+        let availableColumns: string[];
+        let ordered = false;
 
-        // Check if we can use an index
-        if (statement.where && this.canUseIndex(table, statement.where)) {
-            rows = this.selectWithIndex(table, columns, statement.where);
+        const indexedAggregate = statement.joins
+            ? undefined
+            : this.aggregateFromIndex(table, statement);
+
+        if (indexedAggregate) {
+            // MIN/MAX answered directly from ordered indexes
+            rows = indexedAggregate;
+            availableColumns = table.getColumns().map(c => c.name);
+        } else if (statement.joins) {
+            // Join all columns of all tables; WHERE is applied to the joined rows
+            const joinResult = joinAll(
+                { table, name: (statement.alias ?? statement.tableName).toLowerCase() },
+                statement.joins.map(clause => ({
+                    source: {
+                        table: this.getTable(clause.table),
+                        name: (clause.alias ?? clause.table).toLowerCase(),
+                    },
+                    clause,
+                })),
+                predicate,
+                stats => this.chooseJoinStrategy(stats)
+            );
+
+            rows = joinResult.rows;
+            availableColumns = joinResult.columns;
         } else {
-            const predicate = statement.where
-                ? this.createPredicate(statement.where)
-                : undefined;
-            rows = table.select(columns, predicate);
+            availableColumns = table.getColumns().map(c => c.name);
+            ({ rows, ordered } = this.scanTable(table, statement, predicate));
+        }
+
+        // Resolve the select list; output columns are named after their expressions
+        const selectItems: SelectItem[] = statement.columns === '*'
+            ? availableColumns.map(column => ({ expression: { type: 'COLUMN', column } }))
+            : statement.columns;
+        const resultColumns = selectItems.map(item => item.alias ?? formatExpression(item.expression));
+
+        this.validateColumns(
+            [
+                ...selectItems.map(item => item.expression),
+                ...(statement.where ? [statement.where] : []),
+                ...(statement.groupBy ?? []),
+                ...(statement.having ? [statement.having] : []),
+                ...(statement.orderBy ?? []).map(item => item.expression),
+            ],
+            availableColumns
+        );
+
+        if (this.isAggregateQuery(statement, selectItems) && !indexedAggregate) {
+            if (statement.columns === '*') {
+                throw new Error('SELECT * cannot be used with GROUP BY or aggregate functions');
+            }
+            rows = this.aggregateSelect(rows, statement, selectItems);
+        }
+
+        if (statement.orderBy && !ordered) {
+            rows = this.sortRows(rows, statement.orderBy);
+        }
+
+        if (statement.offset !== undefined || statement.limit !== undefined) {
+            const start = statement.offset ?? 0;
+            const end = statement.limit !== undefined ? start + statement.limit : undefined;
+            rows = rows.slice(start, end);
         }
 
-        // Determine actual column names for response
-        const resultColumns = columns === '*'
-            ? table.getColumns().map(c => c.name)
-            : columns;
+        rows = this.projectRows(rows, selectItems, resultColumns);
 
         return {
             success: true,
@@ -177,16 +450,31 @@ export class QueryExecutor {
         const table = this.getTable(statement.tableName);
 
         const predicate = statement.where
-            ? this.createPredicate(statement.where)
+            ? this.createWherePredicate(statement.where)
             : undefined;
 
-        const updatedCount = table.update(statement.set, predicate);
+        for (const column of Object.keys(statement.set)) {
+            if (!table.hasColumn(column)) {
+                throw new Error(`Unknown column: '${column}'`);
+            }
+        }
+        this.validateColumns(Object.values(statement.set), table.getColumns().map(c => c.name));
 
-        return {
-            success: true,
-            message: `${updatedCount} row(s) updated`,
-            rowCount: updatedCount,
-        };
+        const updated = table.update(row => this.evaluateAssignments(statement.set, row), predicate);
+
+        return this.writeResult(table, statement.returning, updated, `${updated.length} row(s) updated`);
+    }
+
+    /**
+     * Evaluate the right-hand sides of SET assignments against a row.
+     */
+    private evaluateAssignments(set: Record<string, Expression>, row: Row): Record<string, Value> {
+        const context = this.database.getEvaluationContext();
+        const values: Record<string, Value> = {};
+        for (const [column, expr] of Object.entries(set)) {
+            values[column] = evaluateExpression(expr, row, context);
+        }
+        return values;
     }
 
     /**
@@ -196,16 +484,42 @@ export class QueryExecutor {
         const table = this.getTable(statement.tableName);
 
         const predicate = statement.where
-            ? this.createPredicate(statement.where)
+            ? this.createWherePredicate(statement.where)
             : undefined;
 
-        const deletedCount = table.delete(predicate);
+        const deleted = table.delete(predicate);
 
-        return {
-            success: true,
-            message: `${deletedCount} row(s) deleted`,
-            rowCount: deletedCount,
-        };
+        return this.writeResult(table, statement.returning, deleted, `${deleted.length} row(s) deleted`);
+    }
+
+    /**
+     * Build the result of an INSERT, UPDATE or DELETE from the rows it
+     * wrote (or deleted). With RETURNING, those rows are projected like a
+     * SELECT list over the table's columns and returned in `rows`.
+     */
+    private writeResult(
+        table: Table,
+        returning: SelectItem[] | '*' | undefined,
+        affected: Row[],
+        message: string
+    ): ExecutionResult {
+        if (!returning) {
+            return { success: true, message, rowCount: affected.length };
+        }
+
+        const available = table.getColumns().map(c => c.name);
+        const selectItems: SelectItem[] = returning === '*'
+            ? available.map(column => ({ expression: { type: 'COLUMN', column } }))
+            : returning;
+        if (selectItems.some(item => containsAggregate(item.expression))) {
+            throw new Error('Aggregate functions are not allowed in RETURNING');
+        }
+        this.validateColumns(selectItems.map(item => item.expression), available);
+
+        const columns = selectItems.map(item => item.alias ?? formatExpression(item.expression));
+        const rows = this.projectRows(affected, selectItems, columns);
+
+        return { success: true, message, rows, rowCount: rows.length, columns };
     }
 
     /**
@@ -230,10 +544,17 @@ export class QueryExecutor {
         const table = this.getTable(statement.tableName);
         const columns = table.getColumns();
 
+        const schema = table.getSchema();
+        const foreignKeys = schema.foreignKeys ?? [];
+
         const rows = columns.map(col => ({
             column_name: col.name,
-            data_type: col.type,
-            constraints: col.constraints.join(', ') || 'NONE',
+            data_type: this.formatDataType(col),
+            constraints: this.formatConstraints(
+                col,
+                foreignKeys.filter(key => key.columns.includes(col.name)),
+                schema
+            ),
         }));
 
         return {
@@ -244,6 +565,134 @@ export class QueryExecutor {
         };
     }
 
+    /**
+     * Render a column's type as written in SQL, e.g. DECIMAL(10,2).
+     */
+    private formatDataType(column: ColumnDefinition): string {
+        if (column.type === 'DECIMAL') {
+            return `DECIMAL(${column.precision ?? 18},${column.scale ?? 0})`;
+        }
+        return column.type;
+    }
+
+    /**
+     * List a column's constraints for DESCRIBE, e.g.
+     * "NOT_NULL, DEFAULT NOW(), CHECK (amount > 0)" or
+     * "PRIMARY_KEY, AUTOINCREMENT, REFERENCES users(id) ON DELETE CASCADE".
+     * Multi-column keys are listed with their columns, e.g.
+     * "PRIMARY KEY (entry_id, line_no)".
+     */
+    private formatConstraints(
+        column: ColumnDefinition,
+        foreignKeys: ForeignKeyDefinition[],
+        schema: TableSchema
+    ): string {
+        const compositeKey = schema.primaryKey && schema.primaryKey.length > 1 ? schema.primaryKey : undefined;
+        const parts: string[] = column.constraints.map(constraint =>
+            constraint === 'PRIMARY_KEY' && compositeKey
+                ? `PRIMARY KEY (${compositeKey.join(', ')})`
+                : constraint
+        );
+        for (const key of schema.uniqueKeys ?? []) {
+            if (key.includes(column.name)) {
+                parts.push(`UNIQUE (${key.join(', ')})`);
+            }
+        }
+        if (column.autoIncrement) {
+            parts.push('AUTOINCREMENT');
+        }
+        if (column.default !== undefined) {
+            parts.push(`DEFAULT ${column.default}`);
+        }
+        if (column.check !== undefined) {
+            parts.push(`CHECK (${column.check})`);
+        }
+        for (const key of foreignKeys) {
+            let text = `REFERENCES ${key.referencedTable}(${key.referencedColumns.join(', ')})`;
+            if (key.onDelete !== 'RESTRICT') {
+                text += ` ON DELETE ${key.onDelete.replace('_', ' ')}`;
+            }
+            if (key.onUpdate !== 'RESTRICT') {
+                text += ` ON UPDATE ${key.onUpdate.replace('_', ' ')}`;
+            }
+            parts.push(text);
+        }
+        return parts.join(', ') || 'NONE';
+    }
+
+    /**
+     * Execute CREATE INDEX.
+     */
+    private executeCreateIndex(statement: ParsedStatement & { type: 'CREATE_INDEX' }): ExecutionResult {
+        this.database.createIndex(statement.tableName, {
+            indexName: statement.indexName,
+            columnName: statement.columnName,
+            unique: statement.unique,
+        });
+
+        return {
+            success: true,
+            message: `Index '${statement.indexName}' created on ${statement.tableName}(${statement.columnName})`,
+        };
+    }
+
+    /**
+     * Execute DROP INDEX.
+     */
+    private executeDropIndex(statement: ParsedStatement & { type: 'DROP_INDEX' }): ExecutionResult {
+        if (!this.database.dropIndex(statement.indexName)) {
+            throw new Error(`Index '${statement.indexName}' does not exist`);
+        }
+
+        return {
+            success: true,
+            message: `Index '${statement.indexName}' dropped`,
+        };
+    }
+
+    /**
+     * Execute CREATE SEQUENCE.
+     */
+    private executeCreateSequence(statement: ParsedStatement & { type: 'CREATE_SEQUENCE' }): ExecutionResult {
+        this.database.createSequence(statement.sequence);
+
+        return {
+            success: true,
+            message: `Sequence '${statement.sequence.name}' created`,
+        };
+    }
+
+    /**
+     * Execute DROP SEQUENCE.
+     */
+    private executeDropSequence(statement: ParsedStatement & { type: 'DROP_SEQUENCE' }): ExecutionResult {
+        if (!this.database.dropSequence(statement.sequenceName)) {
+            throw new Error(`Sequence '${statement.sequenceName}' does not exist`);
+        }
+
+        return {
+            success: true,
+            message: `Sequence '${statement.sequenceName}' dropped`,
+        };
+    }
+
+    /**
+     * Execute BEGIN, COMMIT or ROLLBACK.
+     */
+    private executeTransactionControl(statement: TransactionStatement): ExecutionResult {
+        switch (statement.type) {
+            case 'BEGIN':
+                this.database.beginTransaction();
+                return { success: true, message: 'Transaction started' };
+            case 'COMMIT':
+                this.database.commit();
+                return { success: true, message: 'Transaction committed' };
+            case 'ROLLBACK':
+                this.database.rollback();
+                return { success: true, message: 'Transaction rolled back' };
+        }
+    }
+
     // ==========================================================================
     // HELPER METHODS
     // ==========================================================================
@@ -259,61 +708,509 @@ export class QueryExecutor {
         return table;
     }
 
+    /**
+     * Ensure every column referenced by the given expressions resolves
+     * against the available columns.
+     */
+    private validateColumns(expressions: Expression[], available: string[]): void {
+        const template: Row = {};
+        for (const col of available) {
+            template[col] = null;
+        }
+        for (const expr of expressions) {
+            const refs = collectExpressions(
+                expr,
+                (node): node is ColumnExpression => node.type === 'COLUMN'
+            );
+            for (const ref of refs) {
+                resolveColumnValue(template, ref.column);
+            }
+        }
+    }
+
+    /**
+     * Check whether a SELECT needs an aggregation stage.
+     */
+    private isAggregateQuery(
+        statement: ParsedStatement & { type: 'SELECT' },
+        selectItems: SelectItem[]
+    ): boolean {
+        return statement.groupBy !== undefined
+            || statement.having !== undefined
+            || selectItems.some(item => containsAggregate(item.expression))
+            || (statement.orderBy ?? []).some(item => containsAggregate(item.expression));
+    }
+
+    /**
+     * Apply GROUP BY, aggregate functions and HAVING.
+     * Returns one row per group that satisfies HAVING.
+     */
+    private aggregateSelect(
+        rows: Row[],
+        statement: ParsedStatement & { type: 'SELECT' },
+        selectItems: SelectItem[]
+    ): Row[] {
+        const groupBy = statement.groupBy ?? [];
+        const outputs: Expression[] = [
+            ...selectItems.map(item => item.expression),
+            ...(statement.having ? [statement.having] : []),
+            ...(statement.orderBy ?? []).map(item => item.expression),
+        ];
+
+        for (const expr of outputs) {
+            this.assertGrouped(expr, groupBy);
+        }
+
+        const aggregates = outputs.flatMap(expr => collectExpressions(
+            expr,
+            (node): node is AggregateExpression => node.type === 'AGGREGATE'
+        ));
+
+        let groups = aggregateRows(rows, groupBy, aggregates, this.database.getEvaluationContext());
+
+        if (statement.having) {
+            groups = groups.filter(this.createPredicate(statement.having));
+        }
+
+        return groups;
+    }
+
+    /**
+     * Ensure an expression only references grouped columns outside of
+     * aggregate function calls.
+     */
+    private assertGrouped(expr: Expression, groupBy: Expression[]): void {
+        const isGrouped = (node: Expression): boolean =>
+            groupBy.some(group => this.sameExpression(group, node));
+
+        const leaves = collectExpressions(
+            expr,
+            (node): node is Expression =>
+                node.type === 'AGGREGATE' || node.type === 'COLUMN' || isGrouped(node)
+        );
+
+        for (const leaf of leaves) {
+            if (leaf.type === 'COLUMN' && !isGrouped(leaf)) {
+                throw new Error(
+                    `Column '${leaf.column}' must appear in the GROUP BY clause ` +
+                    `or be used in an aggregate function`
+                );
+            }
+        }
+    }
+
+    /**
+     * Check whether two expressions are equivalent.
+     * Column references match on their bare name unless both are qualified,
+     * so "users.id" and "id" agree but "e.name" and "m.name" do not.
+     */
+    private sameExpression(a: Expression, b: Expression): boolean {
+        if (a.type === 'COLUMN' && b.type === 'COLUMN') {
+            if (a.column.includes('.') && b.column.includes('.')) {
+                return a.column.toLowerCase() === b.column.toLowerCase();
+            }
+            return this.bareColumnName(a.column).toLowerCase()
+                === this.bareColumnName(b.column).toLowerCase();
+        }
+        return formatExpression(a) === formatExpression(b);
+    }
+
+    /**
+     * Project rows onto the select list.
+     */
+    private projectRows(rows: Row[], selectItems: SelectItem[], labels: string[]): Row[] {
+        return rows.map(row => {
+            const projected: Row = {};
+            selectItems.forEach((item, i) => {
+                projected[labels[i]] = evaluateExpression(item.expression, row, this.database.getEvaluationContext());
+            });
+            return projected;
+        });
+    }
+
+    /**
+     * Sort rows according to ORDER BY terms.
+     *
+     * Ordering rules:
+     * - INT and DECIMAL compare numerically, TEXT by code point, BOOL as FALSE < TRUE
+     * - NULLs sort as larger than any value unless NULLS FIRST/LAST is given
+     * - Ties keep their original (insertion) order, since the sort is stable
+     */
+    private sortRows(rows: Row[], orderBy: OrderByItem[]): Row[] {
+        // Evaluate sort keys once per row rather than once per comparison
+        const keyed = rows.map(row => ({
+            row,
+            keys: orderBy.map(item => evaluateExpression(item.expression, row, this.database.getEvaluationContext())),
+        }));
+
+        keyed.sort((a, b) => {
+            for (let i = 0; i < orderBy.length; i++) {
+                const cmp = this.compareSortKeys(a.keys[i], b.keys[i], orderBy[i]);
+                if (cmp !== 0) {
+                    return cmp;
+                }
+            }
+            return 0;
+        });
+
+        return keyed.map(k => k.row);
+    }
+
+    /**
+     * Compare two sort keys for a single ORDER BY term.
+     */
+    private compareSortKeys(a: Value, b: Value, item: OrderByItem): number {
+        if (a === null || b === null) {
+            if (a === b) {
+                return 0;
+            }
+            const nullsFirst = item.nulls
+                ? item.nulls === 'FIRST'
+                : item.direction === 'DESC';
+            return (a === null) === nullsFirst ? -1 : 1;
+        }
+
+        const cmp = compareValues(a, b);
+        return item.direction === 'DESC' ? -cmp : cmp;
+    }
+
+    /**
+     * Create a predicate function for a WHERE clause.
+     * Aggregates are rejected up front, since WHERE runs before grouping.
+     */
+    private createWherePredicate(where: WhereCondition): (row: Row) => boolean {
+        if (containsAggregate(where)) {
+            throw new Error('Aggregate functions are not allowed in WHERE');
+        }
+        return this.createPredicate(where);
+    }
+
     /**
      * Create a predicate function from a WHERE condition.
      */
     private createPredicate(where: WhereCondition): (row: Row) => boolean {
-        const { column, value } = where;
+        return (row: Row): boolean => evaluatePredicate(where, row, this.database.getEvaluationContext());
+    }
 
-        // Handle table.column format
-        const colName = column.includes('.') ? column.split('.')[1] : column;
+    // ==========================================================================
+    // ACCESS PATHS
+    // ==========================================================================
 
-        return (row: Row): boolean => {
-            const rowValue = row[colName] ?? row[column];
-            return this.valuesEqual(rowValue, value);
-        };
+    /**
+     * Choose the algorithm for an equality join.
+     *
+     * - Hash index on the right join column, or a B-tree index and no more
+     *   left rows than right rows: nested loop probing the index (never
+     *   touches unmatched right rows)
+     * - Tiny inputs: plain nested loop (no setup cost)
+     * - B-tree index on the right join column: sort-merge, reading the right
+     *   side in key order from the index so only the left side is sorted
+     * - Otherwise: hash join
+     */
+    private chooseJoinStrategy(stats: JoinStats): JoinStrategy {
+        if (stats.rightIndexed && (!stats.rightOrdered || stats.leftRowCount <= stats.rightRowCount)) {
+            return 'NESTED_LOOP';
+        }
+        if (stats.leftRowCount * stats.rightRowCount <= NESTED_LOOP_MAX_PAIRS) {
+            return 'NESTED_LOOP';
+        }
+        if (stats.rightOrdered) {
+            return 'MERGE';
+        }
+        return 'HASH';
     }
 
     /**
-     * Compare two values for equality.
+     * Read the rows of a single-table SELECT that satisfy WHERE, choosing the
+     * cheapest access path:
+     * 1. Ordered B-tree scan when ORDER BY is a single indexed column
+     *    (rows come out already sorted, and LIMIT can stop the scan early)
+     * 2. Index lookup for an equality on an indexed column, or for
+     *    equalities on every column of a composite key
+     * 3. B-tree range scan for <, <=, >, >= on an indexed column
+     * 4. Full table scan
+     *
+     * @returns The rows, and whether they are already in ORDER BY order
      */
-    private valuesEqual(a: Value, b: Value): boolean {
-        if (a === null || b === null) {
-            return a === b;
+    private scanTable(
+        table: Table,
+        statement: ParsedStatement & { type: 'SELECT' },
+        predicate?: (row: Row) => boolean
+    ): { rows: Row[]; ordered: boolean } {
+        const orderedRows = this.selectOrderedFromIndex(table, statement, predicate);
+        if (orderedRows) {
+            return { rows: orderedRows, ordered: true };
+        }
+
+        if (statement.where && this.canUseIndex(table, statement.where)) {
+            return { rows: this.selectWithIndex(table, '*', statement.where), ordered: false };
+        }
+
+        if (statement.where) {
+            const rangeRows = this.selectWithRange(table, statement.where);
+            if (rangeRows) {
+                return { rows: rangeRows, ordered: false };
+            }
         }
-        return a === b;
+
+        return { rows: table.select('*', predicate), ordered: false };
+    }
+
+    /**
+     * Find comparisons between a column and a non-NULL literal among the
+     * top-level AND terms of a WHERE condition.
+     * Any row satisfying the whole condition must satisfy each of these
+     * terms, so any one of them can be used to narrow the scan.
+     */
+    private findIndexTerms(where: WhereCondition): IndexTerm[] {
+        if (where.type === 'LOGICAL' && where.operator === 'AND') {
+            return [
+                ...this.findIndexTerms(where.left),
+                ...this.findIndexTerms(where.right),
+            ];
+        }
+
+        if (where.type === 'COMPARISON') {
+            const { left, right, operator } = where;
+            const flipped = FLIPPED_OPERATORS[operator];
+            if (!flipped) {
+                return [];
+            }
+            if (left.type === 'COLUMN' && right.type === 'LITERAL' && right.value !== null) {
+                return [{ column: left.column, operator, value: right.value }];
+            }
+            if (right.type === 'COLUMN' && left.type === 'LITERAL' && left.value !== null) {
+                return [{ column: right.column, operator: flipped, value: left.value }];
+            }
+        }
+
+        return [];
+    }
+
+    /**
+     * Find equalities between a column and a non-NULL literal in WHERE.
+     */
+    private findEqualityTerms(where: WhereCondition): IndexTerm[] {
+        return this.findIndexTerms(where).filter(term => term.operator === '=');
+    }
+
+    /**
+     * Combine the range terms on one column into the tightest bounds.
+     * Returns undefined if there are none, or if a bound's type differs from
+     * the indexed values (the full scan then reports the type error).
+     */
+    private findRangeBounds(
+        index: BTreeIndex,
+        where: WhereCondition | undefined
+    ): { lower?: RangeBound; upper?: RangeBound } | undefined {
+        if (!where) {
+            return undefined;
+        }
+
+        const column = index.getColumnName();
+        const terms = this.findIndexTerms(where).filter(term =>
+            term.operator !== '=' && this.bareColumnName(term.column) === column
+        );
+        if (terms.length === 0 || !terms.every(term => index.isComparable(term.value))) {
+            return undefined;
+        }
+
+        let lower: RangeBound | undefined;
+        let upper: RangeBound | undefined;
+
+        for (const term of terms) {
+            const inclusive = term.operator === '<=' || term.operator === '>=';
+            const bound: RangeBound = { value: term.value, inclusive };
+
+            if (term.operator === '>' || term.operator === '>=') {
+                const cmp = lower ? compareValues(term.value, lower.value) : 1;
+                if (cmp > 0 || (cmp === 0 && !inclusive)) {
+                    lower = bound;
+                }
+            } else {
+                const cmp = upper ? compareValues(term.value, upper.value) : -1;
+                if (cmp < 0 || (cmp === 0 && !inclusive)) {
+                    upper = bound;
+                }
+            }
+        }
+
+        return { lower, upper };
+    }
+
+    /**
+     * Strip an optional table prefix from a column reference.
+     */
+    private bareColumnName(column: string): string {
+        return column.includes('.') ? column.split('.')[1] : column;
     }
 
     /**
      * Check if we can use an index for a WHERE clause.
      */
     private canUseIndex(table: Table, where: WhereCondition): boolean {
-        const colName = where.column.includes('.')
-            ? where.column.split('.')[1]
-            : where.column;
+        return this.findEqualityTerms(where).some(term =>
+            table.getIndex(this.bareColumnName(term.column)) !== undefined
+        ) || this.findCompositeLookup(table, where) !== undefined;
+    }
+
+    /**
+     * Find a composite key index whose columns are all fixed by equalities
+     * in WHERE, together with the key to look up.
+     */
+    private findCompositeLookup(
+        table: Table,
+        where: WhereCondition
+    ): { index: CompositeIndex; key: Value[] } | undefined {
+        const terms = this.findEqualityTerms(where);
+        const index = table.findCompositeIndex(terms.map(term => this.bareColumnName(term.column)));
+        if (!index) {
+            return undefined;
+        }
 
-        return table.isPrimaryKey(colName) || table.getIndex(colName) !== undefined;
+        const key = index.getColumnNames().map(column =>
+            terms.find(term => this.bareColumnName(term.column) === column)!.value
+        );
+        return { index, key };
     }
 
     /**
      * Select rows using an index.
+     * The index narrows the candidate rows; the full WHERE condition is then
+     * applied to each candidate.
      */
     private selectWithIndex(
         table: Table,
         columns: string[] | '*',
         where: WhereCondition
     ): Row[] {
-        const colName = where.column.includes('.')
-            ? where.column.split('.')[1]
-            : where.column;
+        const predicate = this.createPredicate(where);
 
-        const index = table.getIndex(colName);
-        if (!index) {
+        // A composite key lookup matches at most one row per key
+        const composite = this.findCompositeLookup(table, where);
+        if (composite) {
+            return table.selectByRowIds(composite.index.lookup(composite.key), columns, predicate);
+        }
+
+        const term = this.findEqualityTerms(where).find(t =>
+            table.getIndex(this.bareColumnName(t.column)) !== undefined
+        );
+
+        const index = term ? table.getIndex(this.bareColumnName(term.column)) : undefined;
+        if (!term || !index) {
             // Fallback to full scan
-            return table.select(columns, this.createPredicate(where));
+            return table.select(columns, predicate);
+        }
+
+        const rowIds = index.lookup(term.value);
+        return table.selectByRowIds(rowIds, columns, predicate);
+    }
+
+    /**
+     * Select rows using a B-tree range scan, if WHERE bounds an indexed column.
+     * Candidates are visited in row ID order, so the result matches a full scan.
+     */
+    private selectWithRange(table: Table, where: WhereCondition): Row[] | undefined {
+        for (const term of this.findIndexTerms(where)) {
+            const index = table.getOrderedIndex(this.bareColumnName(term.column));
+            const bounds = index ? this.findRangeBounds(index, where) : undefined;
+
+            if (index && bounds) {
+                const rowIds = Array.from(index.range(bounds.lower, bounds.upper))
+                    .sort((a, b) => a - b);
+                return table.selectByRowIds(rowIds, '*', this.createPredicate(where));
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Select rows in ORDER BY order by walking a B-tree index.
+     *
+     * Applies when the query orders by a single indexed column and does not
+     * aggregate. Range conditions on that column bound the walk, and with
+     * LIMIT the walk stops once enough rows have matched. NULLs are not
+     * indexed, so an unbounded walk is only used when the column holds none.
+     */
+    private selectOrderedFromIndex(
+        table: Table,
+        statement: ParsedStatement & { type: 'SELECT' },
+        predicate?: (row: Row) => boolean
+    ): Row[] | undefined {
+        const orderBy = statement.orderBy;
+        if (!orderBy || orderBy.length !== 1 || orderBy[0].expression.type !== 'COLUMN') {
+            return undefined;
+        }
+
+        const selectItems = statement.columns === '*' ? [] : statement.columns;
+        if (this.isAggregateQuery(statement, selectItems)) {
+            return undefined;
+        }
+
+        const index = table.getOrderedIndex(this.bareColumnName(orderBy[0].expression.column));
+        if (!index) {
+            return undefined;
+        }
+
+        const bounds = this.findRangeBounds(index, statement.where);
+        if (!bounds && index.getStats().totalEntries < table.count()) {
+            return undefined;
+        }
+
+        const limit = statement.limit !== undefined
+            ? (statement.offset ?? 0) + statement.limit
+            : undefined;
+
+        const rowIds = index.scan({
+            direction: orderBy[0].direction,
+            lower: bounds?.lower,
+            upper: bounds?.upper,
+        });
+        return table.selectByRowIds(rowIds, '*', predicate, limit);
+    }
+
+    /**
+     * Answer a SELECT made up only of MIN/MAX over B-tree indexed columns
+     * (no WHERE, GROUP BY, HAVING or ORDER BY) from the ends of the indexes,
+     * without scanning the table.
+     *
+     * @returns The single aggregate row, or undefined if not applicable
+     */
+    private aggregateFromIndex(
+        table: Table,
+        statement: ParsedStatement & { type: 'SELECT' }
+    ): Row[] | undefined {
+        if (
+            statement.columns === '*' ||
+            statement.where ||
+            statement.groupBy ||
+            statement.having ||
+            statement.orderBy
+        ) {
+            return undefined;
+        }
+
+        const row: Row = {};
+
+        for (const item of statement.columns) {
+            const expr = item.expression;
+            if (
+                expr.type !== 'AGGREGATE' ||
+                (expr.name !== 'MIN' && expr.name !== 'MAX') ||
+                expr.argument === '*' ||
+                expr.argument.type !== 'COLUMN'
+            ) {
+                return undefined;
+            }
+
+            const index = table.getOrderedIndex(this.bareColumnName(expr.argument.column));
+            if (!index) {
+                return undefined;
+            }
+
+            row[formatExpression(expr)] = expr.name === 'MIN' ? index.min() : index.max();
         }
 
-        const rowIds = index.lookup(where.value);
-        return table.selectByRowIds(rowIds, columns);
+        return [row];
     }
 }
@@ -13,9 +13,17 @@ export * from './types';
 // Storage
 export { Database } from './storage/Database';
 export { Table } from './storage/Table';
+export { WriteAheadLog } from './storage/WriteAheadLog';
+export { Sequence } from './storage/Sequence';
 
 // Indexing
 export { HashIndex } from './index/HashIndex';
+export { BTreeIndex } from './index/BTreeIndex';
+export { CompositeIndex } from './index/CompositeIndex';
+
+// Values
+export { Decimal } from './values/Decimal';
+export { SqlDate, SqlTimestamp, SqlInterval } from './values/DateTime';
 
 // Parser
 export { Parser } from './parser/Parser';
@@ -25,7 +33,17 @@ export { Tokenizer, Token, TokenType } from './parser/Tokenizer';
 export { QueryExecutor } from './engine/QueryExecutor';
 
 // Join
-export { innerJoin, JoinResult } from './join/JoinEngine';
+export {
+    innerJoin,
+    joinTables,
+    joinAll,
+    JoinResult,
+    JoinSource,
+    JoinStep,
+    JoinStrategy,
+    JoinStats,
+    JoinStrategyChooser,
+} from './join/JoinEngine';
 
 // REPL
 export { REPL } from './repl';
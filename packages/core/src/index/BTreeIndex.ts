@@ -0,0 +1,391 @@
+/**
+ * LedgerLite - B-Tree Index
+ *
+ * Implements an ordered index (B+ tree) supporting equality lookups,
+ * range scans and ordered iteration.
+ *
+ * Design decisions:
+ * - B+ tree: all keys live in leaves, internal nodes only route searches
+ * - Leaves are doubly linked for forward and backward range scans
+ * - Each key maps to a Set of row IDs (supports non-unique indexes)
+ * - Deletion removes keys from leaves without rebalancing; underfull or
+ *   empty leaves are tolerated (simpler, and fine for an in-memory index)
+ * - Keys of different JavaScript types are ordered by type name first, so
+ *   the tree never has to compare e.g. a number with a string
+ *
+ * Time complexity:
+ * - Lookup: O(log n)
+ * - Insert: O(log n)
+ * - Delete: O(log n)
+ * - Range scan: O(log n + k) for k matching entries
+ */
+
+import { Value, ColumnIndex, RangeBound, SortDirection } from '../types';
+import { compareKeys, typeFamily } from '../engine/ExpressionEvaluator';
+
+/** Maximum number of keys per node before it splits. */
+const MAX_KEYS = 32;
+
+interface LeafNode {
+    leaf: true;
+    keys: Value[];
+    rowIds: Set<number>[];
+    next: LeafNode | null;
+    prev: LeafNode | null;
+}
+
+interface InternalNode {
+    leaf: false;
+    keys: Value[];          // keys[i] is the smallest key reachable via children[i + 1]
+    children: BTreeNode[];
+}
+
+type BTreeNode = LeafNode | InternalNode;
+
+/**
+ * Options for an ordered scan.
+ */
+export interface ScanOptions {
+    direction?: SortDirection;
+    lower?: RangeBound;
+    upper?: RangeBound;
+}
+
+function createLeaf(): LeafNode {
+    return { leaf: true, keys: [], rowIds: [], next: null, prev: null };
+}
+
+export class BTreeIndex implements ColumnIndex {
+    private columnName: string;
+    private isUnique: boolean;
+    private root: BTreeNode;
+    private keyCount: number;
+    private entryCount: number;
+
+    constructor(columnName: string, isUnique: boolean = false) {
+        this.columnName = columnName;
+        this.isUnique = isUnique;
+        this.root = createLeaf();
+        this.keyCount = 0;
+        this.entryCount = 0;
+    }
+
+    /**
+     * Get the column name this index is built on.
+     */
+    getColumnName(): string {
+        return this.columnName;
+    }
+
+    /**
+     * Check if this is a unique index.
+     */
+    getIsUnique(): boolean {
+        return this.isUnique;
+    }
+
+    /**
+     * Find the position of the first key >= value in a sorted key array.
+     */
+    private lowerBound(keys: Value[], value: Value): number {
+        let lo = 0;
+        let hi = keys.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (compareKeys(keys[mid], value) < 0) {
+                lo = mid + 1;
+            } else {
+                hi = mid;
+            }
+        }
+        return lo;
+    }
+
+    /**
+     * Find the child of an internal node that may contain a value.
+     */
+    private childIndex(node: InternalNode, value: Value): number {
+        let lo = 0;
+        let hi = node.keys.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (compareKeys(value, node.keys[mid]) < 0) {
+                hi = mid;
+            } else {
+                lo = mid + 1;
+            }
+        }
+        return lo;
+    }
+
+    /**
+     * Find the leaf that contains (or would contain) a value.
+     */
+    private findLeaf(value: Value): LeafNode {
+        let node = this.root;
+        while (!node.leaf) {
+            node = node.children[this.childIndex(node, value)];
+        }
+        return node;
+    }
+
+    /**
+     * Get the leftmost or rightmost leaf.
+     */
+    private edgeLeaf(side: 'first' | 'last'): LeafNode {
+        let node = this.root;
+        while (!node.leaf) {
+            node = side === 'first' ? node.children[0] : node.children[node.children.length - 1];
+        }
+        return node;
+    }
+
+    /**
+     * Add a value-to-rowId mapping to the index.
+     */
+    add(value: Value, rowId: number): void {
+        const split = this.insertInto(this.root, value, rowId);
+        if (split) {
+            this.root = {
+                leaf: false,
+                keys: [split.key],
+                children: [this.root, split.node],
+            };
+        }
+    }
+
+    /**
+     * Insert into a subtree, returning the new right sibling if the node split.
+     */
+    private insertInto(
+        node: BTreeNode,
+        value: Value,
+        rowId: number
+    ): { key: Value; node: BTreeNode } | null {
+        if (node.leaf) {
+            const pos = this.lowerBound(node.keys, value);
+
+            if (pos < node.keys.length && compareKeys(node.keys[pos], value) === 0) {
+                if (!node.rowIds[pos].has(rowId)) {
+                    node.rowIds[pos].add(rowId);
+                    this.entryCount++;
+                }
+                return null;
+            }
+
+            node.keys.splice(pos, 0, value);
+            node.rowIds.splice(pos, 0, new Set([rowId]));
+            this.keyCount++;
+            this.entryCount++;
+
+            return node.keys.length > MAX_KEYS ? this.splitLeaf(node) : null;
+        }
+
+        const index = this.childIndex(node, value);
+        const split = this.insertInto(node.children[index], value, rowId);
+        if (!split) {
+            return null;
+        }
+
+        node.keys.splice(index, 0, split.key);
+        node.children.splice(index + 1, 0, split.node);
+
+        return node.keys.length > MAX_KEYS ? this.splitInternal(node) : null;
+    }
+
+    /**
+     * Split an overfull leaf in half.
+     */
+    private splitLeaf(node: LeafNode): { key: Value; node: LeafNode } {
+        const mid = Math.ceil(node.keys.length / 2);
+        const right = createLeaf();
+
+        right.keys = node.keys.splice(mid);
+        right.rowIds = node.rowIds.splice(mid);
+
+        right.next = node.next;
+        right.prev = node;
+        if (node.next) {
+            node.next.prev = right;
+        }
+        node.next = right;
+
+        return { key: right.keys[0], node: right };
+    }
+
+    /**
+     * Split an overfull internal node, promoting its middle key.
+     */
+    private splitInternal(node: InternalNode): { key: Value; node: InternalNode } {
+        const mid = Math.floor(node.keys.length / 2);
+        const promoted = node.keys[mid];
+
+        const right: InternalNode = {
+            leaf: false,
+            keys: node.keys.slice(mid + 1),
+            children: node.children.slice(mid + 1),
+        };
+
+        node.keys = node.keys.slice(0, mid);
+        node.children = node.children.slice(0, mid + 1);
+
+        return { key: promoted, node: right };
+    }
+
+    /**
+     * Remove a value-to-rowId mapping from the index.
+     */
+    remove(value: Value, rowId: number): void {
+        const leaf = this.findLeaf(value);
+        const pos = this.lowerBound(leaf.keys, value);
+
+        if (pos >= leaf.keys.length || compareKeys(leaf.keys[pos], value) !== 0) {
+            return;
+        }
+
+        const rowIds = leaf.rowIds[pos];
+        if (rowIds.delete(rowId)) {
+            this.entryCount--;
+        }
+
+        if (rowIds.size === 0) {
+            leaf.keys.splice(pos, 1);
+            leaf.rowIds.splice(pos, 1);
+            this.keyCount--;
+        }
+    }
+
+    /**
+     * Look up row IDs by value.
+     * Returns an empty set if the value is not found.
+     */
+    lookup(value: Value): Set<number> {
+        const leaf = this.findLeaf(value);
+        const pos = this.lowerBound(leaf.keys, value);
+
+        if (pos < leaf.keys.length && compareKeys(leaf.keys[pos], value) === 0) {
+            return leaf.rowIds[pos];
+        }
+        return new Set();
+    }
+
+    /**
+     * Check if a value exists in the index.
+     */
+    has(value: Value): boolean {
+        return this.lookup(value).size > 0;
+    }
+
+    /**
+     * Check whether a value can be meaningfully compared with the indexed
+     * keys (i.e. has a compatible type). Always true for an empty index.
+     */
+    isComparable(value: Value): boolean {
+        const first = this.min();
+        return first === null || typeFamily(first) === typeFamily(value);
+    }
+
+    /**
+     * Iterate row IDs in key order, optionally restricted to a key range.
+     * Row IDs sharing a key are yielded in ascending order.
+     */
+    *scan(options: ScanOptions = {}): Generator<number> {
+        const { direction = 'ASC', lower, upper } = options;
+
+        const belowUpper = (key: Value): boolean => {
+            if (!upper) return true;
+            const cmp = compareKeys(key, upper.value);
+            return cmp < 0 || (cmp === 0 && upper.inclusive);
+        };
+        const aboveLower = (key: Value): boolean => {
+            if (!lower) return true;
+            const cmp = compareKeys(key, lower.value);
+            return cmp > 0 || (cmp === 0 && lower.inclusive);
+        };
+
+        if (direction === 'ASC') {
+            let leaf: LeafNode | null = lower ? this.findLeaf(lower.value) : this.edgeLeaf('first');
+            let pos = lower ? this.lowerBound(leaf.keys, lower.value) : 0;
+
+            while (leaf) {
+                for (; pos < leaf.keys.length; pos++) {
+                    const key = leaf.keys[pos];
+                    if (!aboveLower(key)) continue;
+                    if (!belowUpper(key)) return;
+                    yield* Array.from(leaf.rowIds[pos]).sort((a, b) => a - b);
+                }
+                leaf = leaf.next;
+                pos = 0;
+            }
+        } else {
+            let leaf: LeafNode | null = upper ? this.findLeaf(upper.value) : this.edgeLeaf('last');
+
+            while (leaf) {
+                for (let pos = leaf.keys.length - 1; pos >= 0; pos--) {
+                    const key = leaf.keys[pos];
+                    if (!belowUpper(key)) continue;
+                    if (!aboveLower(key)) return;
+                    yield* Array.from(leaf.rowIds[pos]).sort((a, b) => a - b);
+                }
+                leaf = leaf.prev;
+            }
+        }
+    }
+
+    /**
+     * Get all row IDs whose key lies within a range.
+     */
+    range(lower?: RangeBound, upper?: RangeBound): Set<number> {
+        return new Set(this.scan({ lower, upper }));
+    }
+
+    /**
+     * Get the smallest key, or null if the index is empty.
+     */
+    min(): Value {
+        for (let leaf: LeafNode | null = this.edgeLeaf('first'); leaf; leaf = leaf.next) {
+            if (leaf.keys.length > 0) {
+                return leaf.keys[0];
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Get the largest key, or null if the index is empty.
+     */
+    max(): Value {
+        for (let leaf: LeafNode | null = this.edgeLeaf('last'); leaf; leaf = leaf.prev) {
+            if (leaf.keys.length > 0) {
+                return leaf.keys[leaf.keys.length - 1];
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Get the number of unique values in the index.
+     */
+    size(): number {
+        return this.keyCount;
+    }
+
+    /**
+     * Clear all entries from the index.
+     */
+    clear(): void {
+        this.root = createLeaf();
+        this.keyCount = 0;
+        this.entryCount = 0;
+    }
+
+    /**
+     * Get statistics about the index.
+     */
+    getStats(): { uniqueKeys: number; totalEntries: number } {
+        return {
+            uniqueKeys: this.keyCount,
+            totalEntries: this.entryCount,
+        };
+    }
+}
@@ -0,0 +1,121 @@
+/**
+ * LedgerLite - Composite Index
+ *
+ * Implements a hash index over several columns, used for multi-column
+ * PRIMARY KEY and UNIQUE constraints such as PRIMARY KEY (entry_id, line_no).
+ *
+ * Design decisions:
+ * - A key is the tuple of the row's values in the index's column order,
+ *   hashed to one string; lookups need a value for every key column
+ * - Rows with NULL in any key column are not indexed, so (like single-column
+ *   UNIQUE) they never conflict with each other
+ * - Equality lookups only: no range scans or ordered iteration
+ *
+ * Time complexity:
+ * - Lookup: O(k) for k key columns
+ * - Insert: O(k)
+ * - Delete: O(k)
+ */
+
+import { Row, Value } from '../types';
+import { valueKey } from '../engine/ExpressionEvaluator';
+
+export class CompositeIndex {
+    private columnNames: string[];
+    private isUnique: boolean;
+    private entries: Map<string, Set<number>>; // key hash -> row IDs
+
+    constructor(columnNames: string[], isUnique: boolean = false) {
+        this.columnNames = columnNames;
+        this.isUnique = isUnique;
+        this.entries = new Map();
+    }
+
+    /**
+     * Get the columns this index is built on, in key order.
+     */
+    getColumnNames(): string[] {
+        return this.columnNames;
+    }
+
+    /**
+     * Check if this is a unique index.
+     */
+    getIsUnique(): boolean {
+        return this.isUnique;
+    }
+
+    /**
+     * Get a row's key values in the index's column order.
+     */
+    keyOf(row: Row): Value[] {
+        return this.columnNames.map(column => row[column] ?? null);
+    }
+
+    /**
+     * Convert key values to a hash key string, or null if any is NULL.
+     * The value keys are JSON-encoded so no separator can be ambiguous.
+     */
+    private hashKey(values: Value[]): string | null {
+        if (values.some(value => value === null || value === undefined)) {
+            return null;
+        }
+        return JSON.stringify(values.map(valueKey));
+    }
+
+    /**
+     * Add a row's key to the index.
+     */
+    add(values: Value[], rowId: number): void {
+        const key = this.hashKey(values);
+        if (key === null) {
+            return;
+        }
+
+        let rowIds = this.entries.get(key);
+        if (!rowIds) {
+            rowIds = new Set();
+            this.entries.set(key, rowIds);
+        }
+
+        rowIds.add(rowId);
+    }
+
+    /**
+     * Remove a row's key from the index.
+     */
+    remove(values: Value[], rowId: number): void {
+        const key = this.hashKey(values);
+        const rowIds = key === null ? undefined : this.entries.get(key);
+
+        if (key !== null && rowIds) {
+            rowIds.delete(rowId);
+            if (rowIds.size === 0) {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Look up row IDs by key values (in the index's column order).
+     * Returns an empty set if the key is not found or contains NULL.
+     */
+    lookup(values: Value[]): Set<number> {
+        const key = this.hashKey(values);
+        return (key !== null && this.entries.get(key)) || new Set();
+    }
+
+    /**
+     * Get the number of unique keys in the index.
+     */
+    size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * Clear all entries from the index.
+     */
+    clear(): void {
+        this.entries.clear();
+    }
+}
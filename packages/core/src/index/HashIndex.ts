@@ -16,9 +16,10 @@
  * - Update: O(1) average (delete old + insert new)
  */
 
-import { Value } from '../types';
+import { Value, ColumnIndex } from '../types';
+import { valueKey } from '../engine/ExpressionEvaluator';
 
-export class HashIndex {
+export class HashIndex implements ColumnIndex {
     private columnName: string;
     private isUnique: boolean;
     private entries: Map<string, Set<number>>; // key hash -> row IDs
@@ -51,9 +52,8 @@ export class HashIndex {
         if (value === null || value === undefined) {
             return '__NULL__';
         }
-        // Prefix with type to avoid collisions (e.g., 1 vs "1")
-        const type = typeof value;
-        return `${type}:${String(value)}`;
+        // Prefixed with the type to avoid collisions (e.g., 1 vs "1")
+        return valueKey(value);
     }
 
     /**
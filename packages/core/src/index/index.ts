@@ -5,3 +5,5 @@
  */
 
 export { HashIndex } from './HashIndex';
+export { BTreeIndex } from './BTreeIndex';
+export { CompositeIndex } from './CompositeIndex';
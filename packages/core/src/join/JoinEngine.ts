@@ -1,31 +1,100 @@
 /**
  * LedgerLite - Join Engine
  * 
- * Implements INNER JOIN using a nested-loop algorithm.
+ * Implements INNER, LEFT, RIGHT, FULL OUTER and CROSS joins using one of
+ * three strategies: nested loop (optionally probing an index), hash join
+ * and sort-merge join.
  * 
  * Design decisions:
- * - Uses simple nested-loop join for clarity
- * - Supports only equality conditions
- * - Two-table joins only (as per spec)
+ * - Each strategy only decides which right rows match each left row;
+ *   NULL padding for outer joins is shared, so all strategies return the
+ *   same rows (only their order may differ)
+ * - The caller picks the strategy per join from the input sizes and the
+ *   indexes available (see JoinStrategyChooser); the default is nested loop
+ * - Supports only equality conditions (CROSS JOIN has none)
+ * - Any number of tables: joins are applied left to right, each one joining
+ *   the rows built so far with the next table
+ * - Joined rows are keyed by "name.column", where name is the table's alias
+ *   (or its table name), so a table can be joined with itself
+ * - Outer joins pad the missing side with NULLs; a NULL join key never
+ *   matches anything, as in standard SQL
+ * - The join conditions decide which rows match; the WHERE predicate is
+ *   applied afterwards, so it also sees NULL-padded rows
  * 
- * Time Complexity:
- * - Without index: O(n * m) where n and m are row counts of the two tables
- * - With index on join column: O(n * k) where k is average matches per key
+ * Time Complexity (per join, n left rows, m right rows, k matches per key):
+ * - Nested loop without index: O(n * m)
+ * - Nested loop with index on the right join column: O(n * k)
+ * - Hash join: O(n + m) expected (build on the right, probe with the left)
+ * - Sort-merge join: O(n log n + m log m), or O(n log n + m) when the right
+ *   column has a B-tree index that already yields rows in key order
  * 
  * Trade-offs:
- * - Simple and easy to understand
- * - Not optimal for large tables (hash join or sort-merge would be better)
- * - Acceptable for a learning/demonstration project
+ * - Hash and merge joins hold the whole right input in memory
+ * - Sort-merge output comes in join key order rather than left-table order
  */
 
 import { Table } from '../storage/Table';
-import { Row, JoinClause } from '../types';
+import { Row, JoinClause, InternalRow, Value } from '../types';
+import { resolveColumnValue, compareKeys, valueKey } from '../engine/ExpressionEvaluator';
 
 export interface JoinResult {
     rows: Row[];
     columns: string[];
 }
 
+/**
+ * A table taking part in a join, with the name its columns are qualified
+ * by in joined rows (its alias, or else its table name).
+ */
+export interface JoinSource {
+    table: Table;
+    name: string;
+}
+
+/**
+ * One join in a FROM clause: the table joined in and how.
+ */
+export interface JoinStep {
+    source: JoinSource;
+    clause: JoinClause;
+}
+
+/**
+ * Algorithm used to find matching rows for an equality join.
+ */
+export type JoinStrategy = 'NESTED_LOOP' | 'HASH' | 'MERGE';
+
+/**
+ * What is known about a join when its strategy is chosen.
+ */
+export interface JoinStats {
+    leftRowCount: number;
+    rightRowCount: number;
+    rightIndexed: boolean;  // the right join column has an index
+    rightOrdered: boolean;  // ...and it is an ordered (B-tree) index
+}
+
+/**
+ * Chooses the strategy for each equality join.
+ */
+export type JoinStrategyChooser = (stats: JoinStats) => JoinStrategy;
+
+/**
+ * Left rows paired with the right rows they match.
+ */
+interface MatchedRow {
+    leftRow: Row;
+    matches: InternalRow[];
+}
+
+/**
+ * The resolved ON condition of an equality join.
+ */
+interface JoinKeys {
+    leftKey: string;      // key of the column in the rows joined so far
+    rightColumn: string;  // column of the table being joined
+}
+
 /**
  * Parse a column reference into table and column parts.
  */
@@ -37,6 +106,91 @@ function parseColumnRef(ref: string): { table?: string; column: string } {
     return { column: parts[0] };
 }
 
+/**
+ * Find the key of a column reference among qualified column names.
+ * Unqualified references must match exactly one column.
+ */
+function findColumn(columns: string[], ref: string): string | undefined {
+    const target = ref.toLowerCase();
+
+    if (target.includes('.')) {
+        return columns.find(col => col.toLowerCase() === target);
+    }
+
+    const matches = columns.filter(col => col.toLowerCase().endsWith(`.${target}`));
+    if (matches.length > 1) {
+        throw new Error(`Ambiguous column: '${ref}'`);
+    }
+    return matches[0];
+}
+
+/**
+ * Work out which side of a join a column in the ON condition belongs to.
+ */
+function locateJoinColumn(
+    ref: string,
+    leftColumns: string[],
+    right: JoinSource
+): { side: 'left'; key: string } | { side: 'right'; column: string } {
+    const { table: qualifier, column } = parseColumnRef(ref);
+
+    const rightColumn = !qualifier || qualifier === right.name
+        ? right.table.getColumn(column)?.name
+        : undefined;
+    const leftKey = qualifier === right.name ? undefined : findColumn(leftColumns, ref);
+
+    if (rightColumn !== undefined && leftKey !== undefined) {
+        throw new Error(`Ambiguous column: '${ref}'`);
+    }
+    if (rightColumn !== undefined) {
+        return { side: 'right', column: rightColumn };
+    }
+    if (leftKey !== undefined) {
+        return { side: 'left', key: leftKey };
+    }
+    throw new Error(`Unknown column: '${ref}'`);
+}
+
+/**
+ * Resolve the ON condition of a join into a key on the rows joined so far
+ * and a column of the table being joined, whichever order they are written in.
+ */
+function resolveJoinColumns(
+    leftColumns: string[],
+    right: JoinSource,
+    joinClause: JoinClause
+): JoinKeys {
+    if (!joinClause.leftColumn || !joinClause.rightColumn) {
+        throw new Error(`${joinClause.type} JOIN requires an ON condition`);
+    }
+
+    const first = locateJoinColumn(joinClause.leftColumn, leftColumns, right);
+    const second = locateJoinColumn(joinClause.rightColumn, leftColumns, right);
+
+    if (first.side === 'left' && second.side === 'right') {
+        return { leftKey: first.key, rightColumn: second.column };
+    }
+    if (first.side === 'right' && second.side === 'left') {
+        return { leftKey: second.key, rightColumn: first.column };
+    }
+
+    throw new Error(
+        `JOIN condition for '${right.name}' must compare one of its columns ` +
+        `with a column of a preceding table`
+    );
+}
+
+/**
+ * Qualify a table row's columns with a source name.
+ */
+function qualifyRow(name: string, data: Row): Row {
+    const row: Row = {};
+    for (const [col, value] of Object.entries(data)) {
+        row[`${name}.${col}`] = value;
+    }
+    return row;
+}
+
 /**
  * Perform an INNER JOIN between two tables.
  * 
@@ -44,120 +198,312 @@ function parseColumnRef(ref: string): { table?: string; column: string } {
  * @param rightTable - The right table (JOIN clause)
  * @param joinClause - The join condition
  * @param selectColumns - Columns to include in results, or '*' for all
+ * @param predicate - Optional filter applied to each joined row before projection.
+ *                    The row passed in is keyed by "table.column" for both tables.
  * @returns Join result with rows and column names
  */
 export function innerJoin(
     leftTable: Table,
     rightTable: Table,
     joinClause: JoinClause,
-    selectColumns: string[] | '*'
+    selectColumns: string[] | '*',
+    predicate?: (row: Row) => boolean
 ): JoinResult {
-    const leftName = leftTable.getName().toLowerCase();
-    const rightName = rightTable.getName().toLowerCase();
-
-    // Parse join condition
-    const leftRef = parseColumnRef(joinClause.leftColumn);
-    const rightRef = parseColumnRef(joinClause.rightColumn);
-
-    // Determine which column belongs to which table
-    let leftJoinCol: string;
-    let rightJoinCol: string;
-
-    if (leftRef.table === leftName) {
-        leftJoinCol = leftRef.column;
-        rightJoinCol = rightRef.column;
-    } else if (leftRef.table === rightName) {
-        leftJoinCol = rightRef.column;
-        rightJoinCol = leftRef.column;
-    } else if (rightRef.table === leftName) {
-        leftJoinCol = rightRef.column;
-        rightJoinCol = leftRef.column;
-    } else {
-        // No table prefix, try to match by column existence
-        if (leftTable.hasColumn(leftRef.column)) {
-            leftJoinCol = leftRef.column;
-            rightJoinCol = rightRef.column;
-        } else {
-            leftJoinCol = rightRef.column;
-            rightJoinCol = leftRef.column;
+    return joinTables(leftTable, rightTable, { ...joinClause, type: 'INNER' }, selectColumns, predicate);
+}
+
+/**
+ * Join two tables using the join type given in the clause.
+ * Parameters are as for innerJoin; see joinStep for the join types.
+ */
+export function joinTables(
+    leftTable: Table,
+    rightTable: Table,
+    joinClause: JoinClause,
+    selectColumns: string[] | '*',
+    predicate?: (row: Row) => boolean
+): JoinResult {
+    const result = joinAll(
+        { table: leftTable, name: leftTable.getName().toLowerCase() },
+        [{ source: { table: rightTable, name: rightTable.getName().toLowerCase() }, clause: joinClause }],
+        predicate
+    );
+
+    if (selectColumns === '*') {
+        return result;
+    }
+
+    return {
+        rows: result.rows.map(row => {
+            const projected: Row = {};
+            for (const col of selectColumns) {
+                projected[col] = resolveColumnValue(row, col);
+            }
+            return projected;
+        }),
+        columns: selectColumns,
+    };
+}
+
+/**
+ * Join a chain of tables, left to right, then apply the predicate.
+ *
+ * @param from - The first table (FROM clause)
+ * @param steps - The tables joined onto it, in order
+ * @param predicate - Optional filter applied to each fully joined row
+ * @param chooseStrategy - Picks the algorithm for each equality join
+ *                         (default: always nested loop)
+ * @returns All columns of all tables, keyed by "name.column"
+ */
+export function joinAll(
+    from: JoinSource,
+    steps: JoinStep[],
+    predicate?: (row: Row) => boolean,
+    chooseStrategy: JoinStrategyChooser = () => 'NESTED_LOOP'
+): JoinResult {
+    const names = new Set<string>([from.name]);
+    for (const step of steps) {
+        if (names.has(step.source.name)) {
+            throw new Error(`Table name '${step.source.name}' specified more than once`);
         }
+        names.add(step.source.name);
     }
 
-    // Validate join columns exist
-    if (!leftTable.hasColumn(leftJoinCol)) {
-        throw new Error(`Column '${leftJoinCol}' not found in table '${leftName}'`);
+    let result: JoinResult = {
+        rows: from.table.getAllRows().map(row => qualifyRow(from.name, row.data)),
+        columns: from.table.getColumns().map(c => `${from.name}.${c.name}`),
+    };
+
+    for (const step of steps) {
+        result = joinStep(result, step.source, step.clause, chooseStrategy);
     }
-    if (!rightTable.hasColumn(rightJoinCol)) {
-        throw new Error(`Column '${rightJoinCol}' not found in table '${rightName}'`);
+
+    if (predicate) {
+        result.rows = result.rows.filter(predicate);
     }
 
-    // Determine output columns
-    let outputColumns: string[];
-    if (selectColumns === '*') {
-        outputColumns = [
-            ...leftTable.getColumns().map(c => `${leftName}.${c.name}`),
-            ...rightTable.getColumns().map(c => `${rightName}.${c.name}`),
-        ];
+    return result;
+}
+
+/**
+ * Join the rows built so far with one more table.
+ *
+ * - INNER: only matching pairs
+ * - LEFT: every left row, with NULLs for the right table when nothing matches
+ * - RIGHT: every right row, with NULLs for the left side when nothing matches
+ * - FULL: both of the above
+ * - CROSS: every combination of rows (no join condition)
+ *
+ * Unmatched right rows (RIGHT / FULL) follow the matched rows, in table order.
+ */
+function joinStep(
+    left: JoinResult,
+    right: JoinSource,
+    joinClause: JoinClause,
+    chooseStrategy: JoinStrategyChooser
+): JoinResult {
+    const type = joinClause.type;
+    const rightTable = right.table;
+
+    const columns = [
+        ...left.columns,
+        ...rightTable.getColumns().map(c => `${right.name}.${c.name}`),
+    ];
+
+    // NULL-filled rows used to pad the missing side of an outer join
+    const leftNulls: Row = Object.fromEntries(left.columns.map(col => [col, null]));
+    const rightNulls: Row = Object.fromEntries(rightTable.getColumns().map(c => [c.name, null]));
+
+    const rightRows = rightTable.getAllRows();
+
+    let matched: MatchedRow[];
+    if (type === 'CROSS') {
+        matched = left.rows.map(leftRow => ({ leftRow, matches: rightRows }));
     } else {
-        outputColumns = selectColumns;
+        const keys = resolveJoinColumns(left.columns, right, joinClause);
+        const strategy = chooseStrategy({
+            leftRowCount: left.rows.length,
+            rightRowCount: rightRows.length,
+            rightIndexed: rightTable.getIndex(keys.rightColumn) !== undefined,
+            rightOrdered: rightTable.getOrderedIndex(keys.rightColumn) !== undefined,
+        });
+
+        switch (strategy) {
+            case 'HASH':
+                matched = hashMatch(left.rows, rightRows, keys);
+                break;
+            case 'MERGE':
+                matched = mergeMatch(left.rows, rightTable, rightRows, keys);
+                break;
+            default:
+                matched = nestedLoopMatch(left.rows, rightTable, rightRows, keys);
+        }
     }
 
-    // Get all rows from both tables
-    const leftRows = leftTable.getAllRows();
-    const rightRows = rightTable.getAllRows();
+    const keepLeft = type === 'LEFT' || type === 'FULL';
+    const keepRight = type === 'RIGHT' || type === 'FULL';
+    const matchedRightRowIds = new Set<number>();
+    const rows: Row[] = [];
 
-    // Check if we can use an index on the right table
-    const rightIndex = rightTable.getIndex(rightJoinCol);
+    for (const { leftRow, matches } of matched) {
+        for (const rightRow of matches) {
+            if (keepRight) {
+                matchedRightRowIds.add(rightRow._rowId);
+            }
+            rows.push({ ...leftRow, ...qualifyRow(right.name, rightRow.data) });
+        }
 
-    const resultRows: Row[] = [];
+        if (keepLeft && matches.length === 0) {
+            rows.push({ ...leftRow, ...qualifyRow(right.name, rightNulls) });
+        }
+    }
 
-    // Nested-loop join (with optional index optimization)
-    for (const leftRow of leftRows) {
-        const leftValue = leftRow.data[leftJoinCol];
+    if (keepRight) {
+        for (const rightRow of rightRows) {
+            if (!matchedRightRowIds.has(rightRow._rowId)) {
+                rows.push({ ...leftNulls, ...qualifyRow(right.name, rightRow.data) });
+            }
+        }
+    }
 
-        let matchingRightRows: Row[];
+    return { rows, columns };
+}
+
+/**
+ * Get a row's join key, treating a missing value as NULL.
+ */
+function joinKey(value: Value | undefined): Value {
+    return value === undefined ? null : value;
+}
+
+/**
+ * Nested-loop join: for each left row, probe the right table's index on the
+ * join column if there is one, otherwise scan the whole right table.
+ */
+function nestedLoopMatch(
+    leftRows: Row[],
+    rightTable: Table,
+    rightRows: InternalRow[],
+    keys: JoinKeys
+): MatchedRow[] {
+    const rightIndex = rightTable.getIndex(keys.rightColumn);
+
+    return leftRows.map(leftRow => {
+        const leftValue = joinKey(leftRow[keys.leftKey]);
+        if (leftValue === null) {
+            return { leftRow, matches: [] };
+        }
 
         if (rightIndex) {
             // Use index for O(1) lookup
-            const rowIds = rightIndex.lookup(leftValue);
-            matchingRightRows = Array.from(rowIds)
+            const matches = Array.from(rightIndex.lookup(leftValue))
                 .map(id => rightTable.getRowById(id))
-                .filter((r): r is NonNullable<typeof r> => r !== undefined)
-                .map(r => r.data);
+                .filter((r): r is InternalRow => r !== undefined);
+            return { leftRow, matches };
+        }
+
+        // Full scan of right table
+        return {
+            leftRow,
+            matches: rightRows.filter(r => {
+                const rightValue = joinKey(r.data[keys.rightColumn]);
+                return rightValue !== null && compareKeys(rightValue, leftValue) === 0;
+            }),
+        };
+    });
+}
+
+/**
+ * Hash join: build a hash table over the right rows' join keys, then probe
+ * it once per left row. Matches keep right-table order.
+ */
+function hashMatch(leftRows: Row[], rightRows: InternalRow[], keys: JoinKeys): MatchedRow[] {
+    // Build phase. Keys are typed (see valueKey), so 1 and '1' stay distinct
+    // while 5 and 5.00 share a bucket.
+    const buckets = new Map<string, InternalRow[]>();
+    for (const row of rightRows) {
+        const value = joinKey(row.data[keys.rightColumn]);
+        if (value === null) {
+            continue;
+        }
+        const key = valueKey(value);
+        const bucket = buckets.get(key);
+        if (bucket) {
+            bucket.push(row);
         } else {
-            // Full scan of right table
-            matchingRightRows = rightRows
-                .filter(r => r.data[rightJoinCol] === leftValue)
-                .map(r => r.data);
+            buckets.set(key, [row]);
         }
+    }
 
-        // Create joined rows
-        for (const rightRow of matchingRightRows) {
-            const joinedRow: Row = {};
-
-            for (const col of outputColumns) {
-                const ref = parseColumnRef(col);
-
-                if (ref.table === leftName) {
-                    joinedRow[col] = leftRow.data[ref.column];
-                } else if (ref.table === rightName) {
-                    joinedRow[col] = rightRow[ref.column];
-                } else {
-                    // No table prefix, try left then right
-                    if (leftRow.data[ref.column] !== undefined) {
-                        joinedRow[col] = leftRow.data[ref.column];
-                    } else if (rightRow[ref.column] !== undefined) {
-                        joinedRow[col] = rightRow[ref.column];
-                    }
-                }
-            }
+    // Probe phase
+    return leftRows.map(leftRow => {
+        const leftValue = joinKey(leftRow[keys.leftKey]);
+        return {
+            leftRow,
+            matches: leftValue === null ? [] : buckets.get(valueKey(leftValue)) ?? [],
+        };
+    });
+}
 
-            resultRows.push(joinedRow);
+/**
+ * Sort-merge join: sort both inputs by join key and walk them together.
+ * The right side is read in key order straight from a B-tree index when the
+ * join column has one. Left rows come out in key order, with rows whose key
+ * is NULL (which match nothing) last.
+ */
+function mergeMatch(
+    leftRows: Row[],
+    rightTable: Table,
+    rightRows: InternalRow[],
+    keys: JoinKeys
+): MatchedRow[] {
+    const leftValue = (row: Row): Value => joinKey(row[keys.leftKey]);
+    const rightValue = (row: InternalRow): Value => joinKey(row.data[keys.rightColumn]);
+
+    const leftSorted = leftRows
+        .filter(row => leftValue(row) !== null)
+        .sort((a, b) => compareKeys(leftValue(a), leftValue(b)));
+
+    const rightIndex = rightTable.getOrderedIndex(keys.rightColumn);
+    const rightSorted = rightIndex
+        ? Array.from(rightIndex.scan(), id => rightTable.getRowById(id))
+            .filter((r): r is InternalRow => r !== undefined)
+        : rightRows
+            .filter(row => rightValue(row) !== null)
+            .sort((a, b) => compareKeys(rightValue(a), rightValue(b)));
+
+    const matched: MatchedRow[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < leftSorted.length) {
+        const key = leftValue(leftSorted[i]);
+
+        // Skip right rows with smaller keys
+        while (j < rightSorted.length && compareKeys(rightValue(rightSorted[j]), key) < 0) {
+            j++;
         }
+
+        // Collect the run of right rows with this key
+        let end = j;
+        while (end < rightSorted.length && compareKeys(rightValue(rightSorted[end]), key) === 0) {
+            end++;
+        }
+        const matches = rightSorted.slice(j, end);
+
+        // Every left row with this key gets the same run
+        while (i < leftSorted.length && compareKeys(leftValue(leftSorted[i]), key) === 0) {
+            matched.push({ leftRow: leftSorted[i], matches });
+            i++;
+        }
+        j = end;
     }
 
-    return {
-        rows: resultRows,
-        columns: outputColumns,
-    };
+    for (const row of leftRows) {
+        if (leftValue(row) === null) {
+            matched.push({ leftRow: row, matches: [] });
+        }
+    }
+
+    return matched;
 }
@@ -4,4 +4,14 @@
  * Exports join-related functions.
  */
 
-export { innerJoin, JoinResult } from './JoinEngine';
+export {
+    innerJoin,
+    joinTables,
+    joinAll,
+    JoinResult,
+    JoinSource,
+    JoinStep,
+    JoinStrategy,
+    JoinStats,
+    JoinStrategyChooser,
+} from './JoinEngine';
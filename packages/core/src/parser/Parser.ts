@@ -6,57 +6,167 @@
  * Supported grammar (simplified):
  * 
  * statement := create_table | insert | select | update | delete | show_tables | describe
+ *            | alter_table | drop_table | truncate | create_index | drop_index
+ *            | create_sequence | drop_sequence | transaction_control
  * 
- * create_table := CREATE TABLE identifier '(' column_defs ')'
- * column_defs := column_def (',' column_def)*
+ * create_table := CREATE TABLE (IF NOT EXISTS)? identifier '(' table_elements ')'
+ * table_elements := (column_def | table_constraint) (',' (column_def | table_constraint))*
  * column_def := identifier type constraints?
- * type := INT | TEXT | BOOL
- * constraints := (PRIMARY KEY | UNIQUE)*
+ * table_constraint := (CONSTRAINT identifier)?
+ *                     (PRIMARY KEY '(' columns ')' | UNIQUE '(' columns ')'
+ *                     | FOREIGN KEY '(' columns ')' references)
+ * type := INT | TEXT | BOOL | DATE | TIMESTAMP | REAL | FLOAT | DOUBLE | SERIAL
+ *       | (DECIMAL | NUMERIC) ('(' number (',' number)? ')')?
+ * constraints := (PRIMARY KEY | UNIQUE | NOT NULL | NULL | AUTOINCREMENT | DEFAULT concat
+ *                | CHECK '(' expression ')' | references)*
+ * references := REFERENCES identifier ('(' columns ')')?
+ *               (ON (DELETE | UPDATE) (RESTRICT | CASCADE | SET NULL | NO ACTION))*
+ *
+ * alter_table := ALTER TABLE identifier alter_action
+ * alter_action := ADD COLUMN? column_def | DROP COLUMN? identifier
+ *               | RENAME COLUMN? identifier TO identifier | RENAME TO identifier
+ *               | ALTER COLUMN? identifier TYPE type
+ *
+ * drop_table := DROP TABLE (IF EXISTS)? identifier
+ * truncate := TRUNCATE TABLE? identifier
  * 
- * insert := INSERT INTO identifier '(' columns ')' VALUES '(' values ')'
+ * insert := INSERT INTO identifier '(' columns ')'
+ *           (VALUES '(' values ')' (',' '(' values ')')* | select) on_conflict? returning?
+ * on_conflict := ON CONFLICT ('(' columns ')')? DO (NOTHING | UPDATE SET assignments)
+ * returning := RETURNING ('*' | select_items)
  * columns := identifier (',' identifier)*
- * values := value (',' value)*
+ * values := expression (',' expression)*
  * 
- * select := SELECT (columns | '*') FROM identifier (join_clause)? (where_clause)?
- * join_clause := INNER JOIN identifier ON column '=' column
- * where_clause := WHERE column '=' value
+ * select := SELECT (select_items | '*') FROM table_ref (join_clause)* (where_clause)?
+ *           (group_by_clause)? (having_clause)? (order_by_clause)? (limit_clause)?
+ * select_items := select_item (',' select_item)*
+ * select_item := expression (AS identifier)?
+ * table_ref := identifier (AS? identifier)?
+ * join_clause := join_type JOIN table_ref ON column '=' column | CROSS JOIN table_ref
+ * join_type := INNER? | LEFT OUTER? | RIGHT OUTER? | FULL OUTER?
+ * where_clause := WHERE expression
+ * group_by_clause := GROUP BY expression (',' expression)*
+ * having_clause := HAVING expression
+ * order_by_clause := ORDER BY order_item (',' order_item)*
+ * order_item := expression (ASC | DESC)? (NULLS (FIRST | LAST))?
+ * limit_clause := LIMIT number (OFFSET number)? | OFFSET number
+ *
+ * expression := or_expr
+ * or_expr := and_expr (OR and_expr)*
+ * and_expr := not_expr (AND not_expr)*
+ * not_expr := NOT not_expr | comparison
+ * comparison := concat ((op concat) | IS NOT? NULL)?
+ * op := '=' | '<>' | '!=' | '<' | '>' | '<=' | '>='
+ * concat := additive ('||' additive)*
+ * additive := multiplicative (('+' | '-') multiplicative)*
+ * multiplicative := unary (('*' | '/' | '%') unary)*
+ * unary := '-' unary | primary
+ * primary := value | column | aggregate | function | '(' expression ')'
+ * aggregate := (COUNT | SUM | MIN | MAX | AVG | identifier) '(' ('*' | DISTINCT? expression) ')'
+ *             (identifier is an aggregate registered with Database.createAggregate)
+ * function := identifier '(' (expression (',' expression)*)? ')'
+ *           | EXTRACT '(' field FROM expression ')' | CAST '(' expression AS type ')'
+ *             (identifier is a built-in function such as UPPER, ROUND or COALESCE,
+ *             or one registered with Database.createFunction)
+ *
+ * value := '-'? number | string | TRUE | FALSE | NULL
+ *        | DATE string | TIMESTAMP string | INTERVAL string
  * 
- * update := UPDATE identifier SET assignments (where_clause)?
+ * update := UPDATE identifier SET assignments (where_clause)? returning?
  * assignments := assignment (',' assignment)*
- * assignment := identifier '=' value
+ * assignment := identifier '=' expression
  * 
- * delete := DELETE FROM identifier (where_clause)?
+ * delete := DELETE FROM identifier (where_clause)? returning?
  * 
  * show_tables := SHOW TABLES
  * describe := DESCRIBE identifier
+ *
+ * create_index := CREATE UNIQUE? INDEX identifier ON identifier '(' identifier ')'
+ * drop_index := DROP INDEX identifier
+ *
+ * create_sequence := CREATE SEQUENCE identifier (START WITH? integer | INCREMENT BY? integer)*
+ * drop_sequence := DROP SEQUENCE identifier
+ *
+ * transaction_control := (BEGIN | COMMIT | ROLLBACK) TRANSACTION?
  */
 
 import { Token, Tokenizer, TokenType } from './Tokenizer';
 import {
     ParsedStatement,
     CreateTableStatement,
+    AlterTableStatement,
+    AlterTableAction,
     InsertStatement,
+    OnConflictClause,
     SelectStatement,
     UpdateStatement,
     DeleteStatement,
     ShowTablesStatement,
     DescribeStatement,
+    CreateIndexStatement,
+    DropTableStatement,
+    TruncateStatement,
+    DropIndexStatement,
+    CreateSequenceStatement,
+    DropSequenceStatement,
+    TransactionStatement,
     ColumnDefinition,
+    ForeignKeyDefinition,
+    ReferentialAction,
     DataType,
     ConstraintType,
     WhereCondition,
     JoinClause,
+    JoinType,
     Value,
+    Expression,
+    OrderByItem,
+    SelectItem,
+    AggregateExpression,
+    ArithmeticOperator,
+    ComparisonOperator,
+    FunctionExpression,
+    ColumnExpression,
 } from '../types';
+import { Decimal } from '../values/Decimal';
+import {
+    SqlDate,
+    SqlTimestamp,
+    SqlInterval,
+    TRUNCATE_UNITS,
+    EXTRACT_FIELDS,
+} from '../values/DateTime';
+import {
+    formatExpression,
+    collectExpressions,
+    checkFunctionCall,
+    BUILTIN_FUNCTIONS,
+    FunctionCatalog,
+} from '../engine/ExpressionEvaluator';
+import { AGGREGATE_FUNCTIONS } from '../engine/Aggregator';
+
+const COMPARISON_OPERATORS = new Set(['=', '<>', '!=', '<', '>', '<=', '>=']);
+
+/** Keywords that introduce a typed literal, e.g. DATE '2026-01-31'. */
+const TYPED_LITERALS = new Set(['DATE', 'TIMESTAMP', 'INTERVAL']);
+
+/** DECIMAL without (precision, scale) means DECIMAL(18, 0). */
+const DEFAULT_DECIMAL_PRECISION = 18;
+const MAX_DECIMAL_PRECISION = 38;
 
 export class Parser {
     private tokens: Token[];
     private current: number;
+    private functions?: FunctionCatalog;
 
-    constructor(input: string) {
+    /**
+     * @param functions - User-defined functions the input may call
+     */
+    constructor(input: string, functions?: FunctionCatalog) {
         const tokenizer = new Tokenizer(input);
         this.tokens = tokenizer.tokenize();
         this.current = 0;
+        this.functions = functions;
     }
 
     /**
@@ -78,13 +188,51 @@ export class Parser {
         return statement;
     }
 
+    /**
+     * Parse a standalone expression, such as a stored DEFAULT or CHECK
+     * expression.
+     */
+    static parseExpression(input: string): Expression {
+        const parser = new Parser(input);
+        const expression = parser.parseExpression();
+
+        if (!parser.isAtEnd()) {
+            throw parser.error(`Unexpected token: '${parser.peek().value}'`);
+        }
+
+        return expression;
+    }
+
     /**
      * Parse a single statement.
      */
     private parseStatement(): ParsedStatement {
         if (this.check('KEYWORD', 'CREATE')) {
+            const next = this.peekNext();
+            if (next.type === 'KEYWORD' && (next.value === 'INDEX' || next.value === 'UNIQUE')) {
+                return this.parseCreateIndex();
+            }
+            if (next.type === 'KEYWORD' && next.value === 'SEQUENCE') {
+                return this.parseCreateSequence();
+            }
             return this.parseCreateTable();
         }
+        if (this.check('KEYWORD', 'ALTER')) {
+            return this.parseAlterTable();
+        }
+        if (this.check('KEYWORD', 'DROP')) {
+            const next = this.peekNext();
+            if (next.type === 'KEYWORD' && next.value === 'TABLE') {
+                return this.parseDropTable();
+            }
+            if (next.type === 'KEYWORD' && next.value === 'SEQUENCE') {
+                return this.parseDropSequence();
+            }
+            return this.parseDropIndex();
+        }
+        if (this.check('KEYWORD', 'TRUNCATE')) {
+            return this.parseTruncate();
+        }
         if (this.check('KEYWORD', 'INSERT')) {
             return this.parseInsert();
         }
@@ -103,10 +251,19 @@ export class Parser {
         if (this.check('KEYWORD', 'DESCRIBE')) {
             return this.parseDescribe();
         }
+        if (
+            this.check('KEYWORD', 'BEGIN') ||
+            this.check('KEYWORD', 'COMMIT') ||
+            this.check('KEYWORD', 'ROLLBACK')
+        ) {
+            return this.parseTransactionControl();
+        }
 
         throw this.error(
             `Expected statement, got '${this.peek().value}'. ` +
-            `Supported: CREATE TABLE, INSERT, SELECT, UPDATE, DELETE, SHOW TABLES, DESCRIBE`
+            `Supported: CREATE TABLE, ALTER TABLE, DROP TABLE, TRUNCATE, INSERT, SELECT, UPDATE, DELETE, ` +
+            `SHOW TABLES, DESCRIBE, CREATE INDEX, DROP INDEX, CREATE SEQUENCE, DROP SEQUENCE, ` +
+            `BEGIN, COMMIT, ROLLBACK`
         );
     }
 
@@ -117,279 +274,1222 @@ export class Parser {
         this.consume('KEYWORD', 'CREATE');
         this.consume('KEYWORD', 'TABLE');
 
+        let ifNotExists = false;
+        if (this.check('KEYWORD', 'IF')) {
+            this.advance();
+            this.consume('KEYWORD', 'NOT');
+            this.consume('KEYWORD', 'EXISTS');
+            ifNotExists = true;
+        }
+
         const tableName = this.consumeIdentifier();
 
         this.consume('PUNCTUATION', '(');
-        const columns = this.parseColumnDefinitions();
+        const statement: CreateTableStatement = {
+            type: 'CREATE_TABLE',
+            tableName,
+            columns: [],
+        };
+        if (ifNotExists) {
+            statement.ifNotExists = true;
+        }
+        const foreignKeys: ForeignKeyDefinition[] = [];
+
+        this.parseTableElement(statement, foreignKeys);
+        while (this.check('PUNCTUATION', ',')) {
+            this.advance();
+            this.parseTableElement(statement, foreignKeys);
+        }
         this.consume('PUNCTUATION', ')');
 
+        if (foreignKeys.length > 0) {
+            statement.foreignKeys = foreignKeys;
+        }
+        return statement;
+    }
+
+    /**
+     * Parse DROP TABLE statement.
+     */
+    private parseDropTable(): DropTableStatement {
+        this.consume('KEYWORD', 'DROP');
+        this.consume('KEYWORD', 'TABLE');
+
+        if (this.check('KEYWORD', 'IF')) {
+            this.advance();
+            this.consume('KEYWORD', 'EXISTS');
+            return { type: 'DROP_TABLE', tableName: this.consumeIdentifier(), ifExists: true };
+        }
+
+        return { type: 'DROP_TABLE', tableName: this.consumeIdentifier() };
+    }
+
+    /**
+     * Parse TRUNCATE statement.
+     */
+    private parseTruncate(): TruncateStatement {
+        this.consume('KEYWORD', 'TRUNCATE');
+        this.skipKeyword('TABLE');
+
+        return { type: 'TRUNCATE', tableName: this.consumeIdentifier() };
+    }
+
+    /**
+     * Parse ALTER TABLE statement. Each statement makes one change.
+     */
+    private parseAlterTable(): AlterTableStatement {
+        this.consume('KEYWORD', 'ALTER');
+        this.consume('KEYWORD', 'TABLE');
+
+        const tableName = this.consumeIdentifier();
+        return { type: 'ALTER_TABLE', tableName, action: this.parseAlterAction(tableName) };
+    }
+
+    /**
+     * Parse the change made by ALTER TABLE.
+     */
+    private parseAlterAction(tableName: string): AlterTableAction {
+        if (this.check('KEYWORD', 'ADD')) {
+            this.advance();
+            this.skipKeyword('COLUMN');
+            const foreignKeys: ForeignKeyDefinition[] = [];
+            const column = this.parseColumnDefinition(tableName, foreignKeys);
+            return foreignKeys.length > 0
+                ? { type: 'ADD_COLUMN', column, foreignKeys }
+                : { type: 'ADD_COLUMN', column };
+        }
+
+        if (this.check('KEYWORD', 'DROP')) {
+            this.advance();
+            this.skipKeyword('COLUMN');
+            return { type: 'DROP_COLUMN', columnName: this.consumeIdentifier() };
+        }
+
+        if (this.check('KEYWORD', 'RENAME')) {
+            this.advance();
+            if (this.check('KEYWORD', 'TO')) {
+                this.advance();
+                return { type: 'RENAME_TABLE', newName: this.consumeIdentifier() };
+            }
+            this.skipKeyword('COLUMN');
+            const columnName = this.consumeIdentifier();
+            this.consume('KEYWORD', 'TO');
+            return { type: 'RENAME_COLUMN', columnName, newName: this.consumeIdentifier() };
+        }
+
+        if (this.check('KEYWORD', 'ALTER')) {
+            this.advance();
+            this.skipKeyword('COLUMN');
+            const columnName = this.consumeIdentifier();
+            this.consume('KEYWORD', 'TYPE');
+
+            const dataType = this.parseDataType();
+            if (dataType === 'DECIMAL') {
+                return { type: 'ALTER_COLUMN_TYPE', columnName, dataType, ...this.parseDecimalModifiers() };
+            }
+            return { type: 'ALTER_COLUMN_TYPE', columnName, dataType };
+        }
+
+        throw this.error(
+            `Expected ADD, DROP, RENAME or ALTER after ALTER TABLE ${tableName}, got '${this.peek().value}'`
+        );
+    }
+
+    /**
+     * Parse one element of a CREATE TABLE body: a column definition or a
+     * table-level constraint.
+     */
+    private parseTableElement(statement: CreateTableStatement, foreignKeys: ForeignKeyDefinition[]): void {
+        const next = this.peekNext();
+        const isTableConstraint =
+            this.check('KEYWORD', 'CONSTRAINT') ||
+            this.check('KEYWORD', 'FOREIGN') ||
+            (this.check('KEYWORD', 'PRIMARY') && next.type === 'KEYWORD' && next.value === 'KEY') ||
+            (this.check('KEYWORD', 'UNIQUE') && next.type === 'PUNCTUATION' && next.value === '(');
+
+        if (isTableConstraint) {
+            this.parseTableConstraint(statement, foreignKeys);
+        } else {
+            statement.columns.push(this.parseColumnDefinition(statement.tableName, foreignKeys));
+        }
+    }
+
+    /**
+     * Parse a single column definition. A REFERENCES constraint on the
+     * column is added to `foreignKeys`.
+     */
+    private parseColumnDefinition(tableName: string, foreignKeys: ForeignKeyDefinition[]): ColumnDefinition {
+        const name = this.consumeIdentifier();
+
+        // SERIAL is shorthand for INT AUTOINCREMENT
+        if (this.check('KEYWORD', 'SERIAL')) {
+            this.advance();
+            const column: ColumnDefinition = { name, type: 'INT', ...this.parseConstraints(tableName, name, foreignKeys) };
+            column.autoIncrement = true;
+            return column;
+        }
+
+        const type = this.parseDataType();
+
+        if (type === 'DECIMAL') {
+            const { precision, scale } = this.parseDecimalModifiers();
+            return { name, type, precision, scale, ...this.parseConstraints(tableName, name, foreignKeys) };
+        }
+
+        return { name, type, ...this.parseConstraints(tableName, name, foreignKeys) };
+    }
+
+    /**
+     * Parse a table-level constraint:
+     * [CONSTRAINT name] PRIMARY KEY (columns) | UNIQUE (columns)
+     *                 | FOREIGN KEY (columns) REFERENCES ...
+     * Only foreign keys keep their name; it appears in their error messages.
+     */
+    private parseTableConstraint(statement: CreateTableStatement, foreignKeys: ForeignKeyDefinition[]): void {
+        let name: string | undefined;
+        if (this.check('KEYWORD', 'CONSTRAINT')) {
+            this.advance();
+            name = this.consumeIdentifier();
+        }
+
+        if (this.check('KEYWORD', 'PRIMARY')) {
+            this.advance();
+            this.consume('KEYWORD', 'KEY');
+            if (statement.primaryKey) {
+                throw this.error(`Multiple PRIMARY KEY constraints for table '${statement.tableName}'`);
+            }
+            statement.primaryKey = this.parseKeyColumns();
+            return;
+        }
+
+        if (this.check('KEYWORD', 'UNIQUE')) {
+            this.advance();
+            const columns = this.parseKeyColumns();
+            statement.uniqueKeys = [...(statement.uniqueKeys ?? []), columns];
+            return;
+        }
+
+        this.consume('KEYWORD', 'FOREIGN');
+        this.consume('KEYWORD', 'KEY');
+        const columns = this.parseKeyColumns();
+
+        foreignKeys.push(
+            this.parseReferences(name ?? `${statement.tableName}_${columns.join('_')}_fkey`, columns)
+        );
+    }
+
+    /**
+     * Parse the parenthesized column list of a table constraint.
+     */
+    private parseKeyColumns(): string[] {
+        this.consume('PUNCTUATION', '(');
+        const columns = this.parseIdentifierList();
+        this.consume('PUNCTUATION', ')');
+        return columns;
+    }
+
+    /**
+     * Parse REFERENCES table [(columns)] followed by optional ON DELETE /
+     * ON UPDATE actions. Without a column list the referenced table's
+     * primary key is meant; the Database resolves it.
+     */
+    private parseReferences(name: string, columns: string[]): ForeignKeyDefinition {
+        this.consume('KEYWORD', 'REFERENCES');
+        const referencedTable = this.consumeIdentifier();
+
+        let referencedColumns: string[] = [];
+        if (this.check('PUNCTUATION', '(')) {
+            this.advance();
+            referencedColumns = this.parseIdentifierList();
+            this.consume('PUNCTUATION', ')');
+        }
+
+        const foreignKey: ForeignKeyDefinition = {
+            name,
+            columns,
+            referencedTable,
+            referencedColumns,
+            onDelete: 'RESTRICT',
+            onUpdate: 'RESTRICT',
+        };
+
+        while (this.check('KEYWORD', 'ON')) {
+            this.advance();
+            if (this.check('KEYWORD', 'DELETE')) {
+                this.advance();
+                foreignKey.onDelete = this.parseReferentialAction();
+            } else {
+                this.consume('KEYWORD', 'UPDATE');
+                foreignKey.onUpdate = this.parseReferentialAction();
+            }
+        }
+
+        return foreignKey;
+    }
+
+    /**
+     * Parse RESTRICT, CASCADE, SET NULL or NO ACTION (same as RESTRICT).
+     */
+    private parseReferentialAction(): ReferentialAction {
+        if (this.check('KEYWORD', 'CASCADE')) {
+            this.advance();
+            return 'CASCADE';
+        }
+        if (this.check('KEYWORD', 'SET')) {
+            this.advance();
+            this.consume('KEYWORD', 'NULL');
+            return 'SET_NULL';
+        }
+        if (this.check('KEYWORD', 'NO')) {
+            this.advance();
+            this.consume('KEYWORD', 'ACTION');
+            return 'RESTRICT';
+        }
+        if (this.check('KEYWORD', 'RESTRICT')) {
+            this.advance();
+            return 'RESTRICT';
+        }
+        throw this.error(`Expected RESTRICT, CASCADE, SET NULL or NO ACTION, got '${this.peek().value}'`);
+    }
+
+    /**
+     * Parse a data type. NUMERIC is a synonym for DECIMAL; FLOAT and
+     * DOUBLE are synonyms for REAL.
+     */
+    private parseDataType(): DataType {
+        const token = this.advance();
+
+        if (token.type !== 'KEYWORD') {
+            throw this.error(`Expected data type (INT, TEXT, BOOL, DECIMAL, REAL, DATE, TIMESTAMP), got '${token.value}'`);
+        }
+
+        const type = token.value.toUpperCase();
+        if (type === 'DECIMAL' || type === 'NUMERIC') {
+            return 'DECIMAL';
+        }
+        if (type === 'REAL' || type === 'FLOAT' || type === 'DOUBLE') {
+            return 'REAL';
+        }
+        if (!['INT', 'TEXT', 'BOOL', 'DATE', 'TIMESTAMP'].includes(type)) {
+            throw this.error(
+                `Unknown data type: '${token.value}'. Supported: INT, TEXT, BOOL, DECIMAL, REAL, DATE, TIMESTAMP`
+            );
+        }
+
+        return type as DataType;
+    }
+
+    /**
+     * Parse the optional (precision[, scale]) after DECIMAL.
+     * Defaults to DECIMAL(18, 0); scale defaults to 0.
+     */
+    private parseDecimalModifiers(): { precision: number; scale: number } {
+        let precision = DEFAULT_DECIMAL_PRECISION;
+        let scale = 0;
+
+        if (this.check('PUNCTUATION', '(')) {
+            this.advance();
+            precision = this.parseNonNegativeInteger('DECIMAL precision');
+            if (this.check('PUNCTUATION', ',')) {
+                this.advance();
+                scale = this.parseNonNegativeInteger('DECIMAL scale');
+            }
+            this.consume('PUNCTUATION', ')');
+        }
+
+        if (precision < 1 || precision > MAX_DECIMAL_PRECISION) {
+            throw this.error(`DECIMAL precision must be between 1 and ${MAX_DECIMAL_PRECISION}, got ${precision}`);
+        }
+        if (scale > precision) {
+            throw this.error(`DECIMAL scale ${scale} must not exceed precision ${precision}`);
+        }
+
+        return { precision, scale };
+    }
+
+    /**
+     * Parse column constraints.
+     * DEFAULT and CHECK expressions are returned as normalized SQL text.
+     * Several CHECKs on one column are combined with AND; a bare NULL
+     * (explicitly nullable) is accepted and ignored. A REFERENCES
+     * constraint is added to `foreignKeys`.
+     */
+    private parseConstraints(
+        tableName: string,
+        columnName: string,
+        foreignKeys: ForeignKeyDefinition[]
+    ): Pick<ColumnDefinition, 'constraints' | 'default' | 'check' | 'autoIncrement'> {
+        const constraints: ConstraintType[] = [];
+        let defaultExpr: Expression | undefined;
+        let checkExpr: Expression | undefined;
+        let autoIncrement = false;
+
+        while (true) {
+            if (this.check('KEYWORD', 'PRIMARY')) {
+                this.advance();
+                this.consume('KEYWORD', 'KEY');
+                constraints.push('PRIMARY_KEY');
+            } else if (this.check('KEYWORD', 'UNIQUE')) {
+                this.advance();
+                constraints.push('UNIQUE');
+            } else if (this.check('KEYWORD', 'NOT')) {
+                this.advance();
+                this.consume('KEYWORD', 'NULL');
+                if (!constraints.includes('NOT_NULL')) {
+                    constraints.push('NOT_NULL');
+                }
+            } else if (this.check('KEYWORD', 'NULL')) {
+                this.advance();
+            } else if (this.check('KEYWORD', 'AUTOINCREMENT')) {
+                this.advance();
+                autoIncrement = true;
+            } else if (this.check('KEYWORD', 'DEFAULT')) {
+                this.advance();
+                if (defaultExpr) {
+                    throw this.error(`Multiple DEFAULT values specified for column '${columnName}'`);
+                }
+                defaultExpr = this.parseConcat();
+                this.rejectUserFunctions(defaultExpr, 'DEFAULT');
+            } else if (this.check('KEYWORD', 'CHECK')) {
+                this.advance();
+                this.consume('PUNCTUATION', '(');
+                const condition = this.parseExpression();
+                this.consume('PUNCTUATION', ')');
+                this.rejectUserFunctions(condition, 'CHECK');
+                checkExpr = checkExpr
+                    ? { type: 'LOGICAL', operator: 'AND', left: checkExpr, right: condition }
+                    : condition;
+            } else if (this.check('KEYWORD', 'REFERENCES')) {
+                foreignKeys.push(this.parseReferences(`${tableName}_${columnName}_fkey`, [columnName]));
+            } else {
+                break;
+            }
+        }
+
+        const result: Pick<ColumnDefinition, 'constraints' | 'default' | 'check' | 'autoIncrement'> = { constraints };
+        if (autoIncrement) {
+            result.autoIncrement = true;
+        }
+        if (defaultExpr) {
+            result.default = formatExpression(defaultExpr);
+        }
+        if (checkExpr) {
+            result.check = formatExpression(checkExpr);
+        }
+        return result;
+    }
+
+    /**
+     * Reject calls to user-defined functions in a DEFAULT or CHECK
+     * expression, which is stored with the table and must still work when
+     * the database is loaded without those functions.
+     */
+    private rejectUserFunctions(expr: Expression, clause: string): void {
+        const calls = collectExpressions(
+            expr,
+            (node): node is FunctionExpression | AggregateExpression =>
+                (node.type === 'FUNCTION' || node.type === 'AGGREGATE') && !this.isBuiltinFunction(node.name)
+        );
+        if (calls.length > 0) {
+            throw this.error(`User-defined function ${calls[0].name} cannot be used in ${clause}`);
+        }
+    }
+
+    /**
+     * Check whether a function name is built in rather than user-defined.
+     */
+    private isBuiltinFunction(name: string): boolean {
+        return name in BUILTIN_FUNCTIONS || AGGREGATE_FUNCTIONS.has(name);
+    }
+
+    /**
+     * Parse INSERT statement.
+     */
+    private parseInsert(): InsertStatement {
+        this.consume('KEYWORD', 'INSERT');
+        this.consume('KEYWORD', 'INTO');
+
+        const tableName = this.consumeIdentifier();
+
+        this.consume('PUNCTUATION', '(');
+        const columns = this.parseIdentifierList();
+        this.consume('PUNCTUATION', ')');
+
+        const statement: InsertStatement = { type: 'INSERT', tableName, columns };
+        if (this.check('KEYWORD', 'SELECT')) {
+            statement.select = this.parseSelect();
+        } else {
+            statement.values = this.parseInsertValues(columns.length);
+        }
+
+        if (this.check('KEYWORD', 'ON')) {
+            statement.onConflict = this.parseOnConflict();
+        }
+        statement.returning = this.parseReturning();
+        return statement;
+    }
+
+    /**
+     * Parse VALUES (...), (...) of an INSERT, checking each row has one
+     * value per named column.
+     */
+    private parseInsertValues(columnCount: number): Expression[][] {
+        this.consume('KEYWORD', 'VALUES');
+
+        const values: Expression[][] = [];
+        do {
+            if (values.length > 0) {
+                this.advance(); // ','
+            }
+            this.consume('PUNCTUATION', '(');
+            const row = this.parseExpressionList();
+            this.consume('PUNCTUATION', ')');
+
+            if (row.length !== columnCount) {
+                throw this.error(
+                    `VALUES row ${values.length + 1} has ${row.length} value(s) ` +
+                    `but ${columnCount} column(s) were named`
+                );
+            }
+            values.push(row);
+        } while (this.check('PUNCTUATION', ','));
+
+        return values;
+    }
+
+    /**
+     * Parse ON CONFLICT [(columns)] DO NOTHING | DO UPDATE SET col = expr, ...
+     * The EXCLUDED qualifier is normalized to lowercase, matching the
+     * column names the executor provides for the proposed row.
+     */
+    private parseOnConflict(): OnConflictClause {
+        this.consume('KEYWORD', 'ON');
+        this.consume('KEYWORD', 'CONFLICT');
+
+        let columns: string[] | undefined;
+        if (this.check('PUNCTUATION', '(')) {
+            columns = this.parseKeyColumns();
+        }
+
+        this.consume('KEYWORD', 'DO');
+        if (this.check('KEYWORD', 'NOTHING')) {
+            this.advance();
+            return columns ? { columns, action: 'NOTHING' } : { action: 'NOTHING' };
+        }
+
+        this.consume('KEYWORD', 'UPDATE');
+        if (!columns) {
+            throw this.error('ON CONFLICT DO UPDATE requires a conflict target, e.g. ON CONFLICT (id)');
+        }
+        this.consume('KEYWORD', 'SET');
+
+        const set = this.parseAssignments();
+        for (const value of Object.values(set)) {
+            for (const ref of collectExpressions(value, (node): node is ColumnExpression => node.type === 'COLUMN')) {
+                if (ref.column.toLowerCase().startsWith('excluded.')) {
+                    ref.column = `excluded.${ref.column.slice('excluded.'.length)}`;
+                }
+            }
+        }
+
+        return { columns, action: 'UPDATE', set };
+    }
+
+    /**
+     * Parse a list of identifiers.
+     */
+    private parseIdentifierList(): string[] {
+        const identifiers: string[] = [];
+
+        identifiers.push(this.consumeIdentifier());
+
+        while (this.check('PUNCTUATION', ',')) {
+            this.advance();
+            identifiers.push(this.consumeIdentifier());
+        }
+
+        return identifiers;
+    }
+
+    /**
+     * Parse a single value.
+     */
+    private parseValue(): Value {
+        const token = this.peek();
+
+        if (token.type === 'NUMBER') {
+            this.advance();
+            return this.parseNumber(token.value);
+        }
+
+        if (token.type === 'OPERATOR' && token.value === '-' && this.peekNext().type === 'NUMBER') {
+            this.advance();
+            return this.parseNumber(`-${this.advance().value}`);
+        }
+
+        if (this.isTypedLiteral()) {
+            return this.parseTypedLiteral();
+        }
+
+        if (token.type === 'STRING') {
+            this.advance();
+            return token.value;
+        }
+
+        if (token.type === 'BOOLEAN') {
+            this.advance();
+            return token.value === 'TRUE';
+        }
+
+        if (token.type === 'KEYWORD' && token.value === 'NULL') {
+            this.advance();
+            return null;
+        }
+
+        throw this.error(`Expected value, got '${token.value}'`);
+    }
+
+    /**
+     * Convert number literal text:
+     * - with an exponent (1.5e3): REAL
+     * - with a fractional part (19.99): exact DECIMAL
+     * - otherwise INT, or DECIMAL if too large to hold exactly
+     */
+    private parseNumber(text: string): Value {
+        if (/e/i.test(text)) {
+            const value = Number(text);
+            if (!Number.isFinite(value)) {
+                throw this.error(`Numeric literal out of range: ${text}`);
+            }
+            return value;
+        }
+        if (text.includes('.')) {
+            return Decimal.parse(text);
+        }
+        const value = parseInt(text, 10);
+        return Number.isSafeInteger(value) ? value : Decimal.parse(text);
+    }
+
+    /**
+     * Check whether the current tokens start a typed literal (DATE '...').
+     */
+    private isTypedLiteral(): boolean {
+        const token = this.peek();
+        return token.type === 'KEYWORD' && TYPED_LITERALS.has(token.value) && this.peekNext().type === 'STRING';
+    }
+
+    /**
+     * Parse DATE '...', TIMESTAMP '...' or INTERVAL '...'.
+     */
+    private parseTypedLiteral(): Value {
+        const keyword = this.advance().value;
+        const text = this.advance().value;
+
+        try {
+            switch (keyword) {
+                case 'DATE':
+                    return SqlDate.parse(text);
+                case 'TIMESTAMP':
+                    return SqlTimestamp.parse(text);
+                default:
+                    return SqlInterval.parse(text);
+            }
+        } catch (error) {
+            throw this.error(error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    /**
+     * Parse SELECT statement.
+     */
+    private parseSelect(): SelectStatement {
+        this.consume('KEYWORD', 'SELECT');
+
+        let columns: SelectItem[] | '*';
+        if (this.check('STAR')) {
+            this.advance();
+            columns = '*';
+        } else {
+            columns = this.parseColumnList();
+        }
+
+        this.consume('KEYWORD', 'FROM');
+        const tableName = this.consumeIdentifier();
+        const alias = this.parseTableAlias();
+
+        let joins: JoinClause[] | undefined;
+        while (this.isJoinStart()) {
+            joins = joins ?? [];
+            joins.push(this.parseJoinClause());
+        }
+
+        let where: WhereCondition | undefined;
+        if (this.check('KEYWORD', 'WHERE')) {
+            where = this.parseWhereClause();
+        }
+
+        let groupBy: Expression[] | undefined;
+        if (this.check('KEYWORD', 'GROUP')) {
+            this.advance();
+            this.consume('KEYWORD', 'BY');
+            groupBy = this.parseExpressionList();
+        }
+
+        let having: Expression | undefined;
+        if (this.check('KEYWORD', 'HAVING')) {
+            this.advance();
+            having = this.parseExpression();
+        }
+
+        let orderBy: OrderByItem[] | undefined;
+        if (this.check('KEYWORD', 'ORDER')) {
+            orderBy = this.parseOrderByClause();
+            if (columns !== '*') {
+                this.resolveOrderByAliases(orderBy, columns);
+            }
+        }
+
+        let limit: number | undefined;
+        if (this.check('KEYWORD', 'LIMIT')) {
+            this.advance();
+            limit = this.parseNonNegativeInteger('LIMIT');
+        }
+
+        let offset: number | undefined;
+        if (this.check('KEYWORD', 'OFFSET')) {
+            this.advance();
+            offset = this.parseNonNegativeInteger('OFFSET');
+        }
+
         return {
-            type: 'CREATE_TABLE',
-            tableName,
+            type: 'SELECT',
             columns,
+            tableName,
+            alias,
+            joins,
+            where,
+            groupBy,
+            having,
+            orderBy,
+            limit,
+            offset,
+        };
+    }
+
+    /**
+     * Parse ORDER BY clause.
+     */
+    private parseOrderByClause(): OrderByItem[] {
+        this.consume('KEYWORD', 'ORDER');
+        this.consume('KEYWORD', 'BY');
+
+        const items: OrderByItem[] = [this.parseOrderByItem()];
+
+        while (this.check('PUNCTUATION', ',')) {
+            this.advance();
+            items.push(this.parseOrderByItem());
+        }
+
+        return items;
+    }
+
+    /**
+     * Replace ORDER BY terms that name a select-list alias with the aliased
+     * expression. As in PostgreSQL, an alias takes precedence over a table
+     * column of the same name.
+     */
+    private resolveOrderByAliases(orderBy: OrderByItem[], columns: SelectItem[]): void {
+        for (const item of orderBy) {
+            if (item.expression.type !== 'COLUMN') {
+                continue;
+            }
+            const name = item.expression.column.toLowerCase();
+            const aliased = columns.find(column => column.alias?.toLowerCase() === name);
+            if (aliased) {
+                item.expression = aliased.expression;
+            }
+        }
+    }
+
+    /**
+     * Parse a single ORDER BY term.
+     */
+    private parseOrderByItem(): OrderByItem {
+        const expression = this.parseExpression();
+
+        let direction: OrderByItem['direction'] = 'ASC';
+        if (this.check('KEYWORD', 'ASC')) {
+            this.advance();
+        } else if (this.check('KEYWORD', 'DESC')) {
+            this.advance();
+            direction = 'DESC';
+        }
+
+        const item: OrderByItem = { expression, direction };
+
+        if (this.check('KEYWORD', 'NULLS')) {
+            this.advance();
+            if (this.check('KEYWORD', 'FIRST')) {
+                this.advance();
+                item.nulls = 'FIRST';
+            } else {
+                this.consume('KEYWORD', 'LAST');
+                item.nulls = 'LAST';
+            }
+        }
+
+        return item;
+    }
+
+    /**
+     * Parse a non-negative integer argument (LIMIT / OFFSET).
+     */
+    private parseNonNegativeInteger(clause: string): number {
+        const token = this.peek();
+        const value = token.type === 'NUMBER' ? Number(token.value) : NaN;
+
+        if (!Number.isInteger(value) || value < 0) {
+            throw this.error(`${clause} expects a non-negative integer, got '${token.value}'`);
+        }
+
+        this.advance();
+        return value;
+    }
+
+    /**
+     * Parse a column list for SELECT or RETURNING, each item with an
+     * optional AS alias.
+     */
+    private parseColumnList(): SelectItem[] {
+        const items: SelectItem[] = [];
+
+        do {
+            if (items.length > 0) {
+                this.advance(); // ','
+            }
+            const item: SelectItem = { expression: this.parseExpression() };
+            if (this.check('KEYWORD', 'AS')) {
+                this.advance();
+                item.alias = this.consumeIdentifier();
+            }
+            items.push(item);
+        } while (this.check('PUNCTUATION', ','));
+
+        return items;
+    }
+
+    /**
+     * Parse a comma-separated list of expressions.
+     */
+    private parseExpressionList(): Expression[] {
+        const expressions: Expression[] = [this.parseExpression()];
+
+        while (this.check('PUNCTUATION', ',')) {
+            this.advance();
+            expressions.push(this.parseExpression());
+        }
+
+        return expressions;
+    }
+
+    /**
+     * Parse a column reference (may include table.column format).
+     */
+    private parseColumnReference(): string {
+        let name = this.consumeIdentifier();
+
+        if (this.check('PUNCTUATION', '.')) {
+            this.advance();
+            const column = this.consumeIdentifier();
+            name = `${name}.${column}`;
+        }
+
+        return name;
+    }
+
+    /**
+     * Parse JOIN clause.
+     */
+    private parseJoinClause(): JoinClause {
+        let type: JoinType = 'INNER';
+
+        if (this.check('KEYWORD', 'INNER')) {
+            this.advance();
+        } else if (this.check('KEYWORD', 'CROSS')) {
+            this.advance();
+            type = 'CROSS';
+        } else if (
+            this.check('KEYWORD', 'LEFT') ||
+            this.check('KEYWORD', 'RIGHT') ||
+            this.check('KEYWORD', 'FULL')
+        ) {
+            type = this.advance().value as JoinType;
+            if (this.check('KEYWORD', 'OUTER')) {
+                this.advance();
+            }
+        }
+
+        this.consume('KEYWORD', 'JOIN');
+
+        const table = this.consumeIdentifier();
+        const alias = this.parseTableAlias();
+
+        if (type === 'CROSS') {
+            return { type, table, alias };
+        }
+
+        this.consume('KEYWORD', 'ON');
+
+        const leftColumn = this.parseColumnReference();
+        this.consume('OPERATOR', '=');
+        const rightColumn = this.parseColumnReference();
+
+        return {
+            type,
+            table,
+            alias,
+            leftColumn,
+            rightColumn,
         };
     }
 
     /**
-     * Parse column definitions.
+     * Parse an optional table alias: "AS name" or just "name".
+     * A bare alias must be an identifier, so a following keyword
+     * (WHERE, JOIN, ...) is never mistaken for one.
+     */
+    private parseTableAlias(): string | undefined {
+        if (this.check('KEYWORD', 'AS')) {
+            this.advance();
+            return this.consumeIdentifier();
+        }
+        if (this.check('IDENTIFIER')) {
+            return this.advance().value;
+        }
+        return undefined;
+    }
+
+    /**
+     * Check whether the current token starts a join clause.
+     */
+    private isJoinStart(): boolean {
+        return ['JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS'].some(keyword =>
+            this.check('KEYWORD', keyword)
+        );
+    }
+
+    /**
+     * Parse WHERE clause.
+     */
+    private parseWhereClause(): WhereCondition {
+        this.consume('KEYWORD', 'WHERE');
+        return this.parseExpression();
+    }
+
+    /**
+     * Parse a boolean expression (lowest precedence: OR).
      */
-    private parseColumnDefinitions(): ColumnDefinition[] {
-        const columns: ColumnDefinition[] = [];
+    private parseExpression(): Expression {
+        return this.parseOr();
+    }
 
-        columns.push(this.parseColumnDefinition());
+    /**
+     * Parse OR-separated terms.
+     */
+    private parseOr(): Expression {
+        let left = this.parseAnd();
 
-        while (this.check('PUNCTUATION', ',')) {
+        while (this.check('KEYWORD', 'OR')) {
             this.advance();
-            columns.push(this.parseColumnDefinition());
+            const right = this.parseAnd();
+            left = { type: 'LOGICAL', operator: 'OR', left, right };
         }
 
-        return columns;
+        return left;
     }
 
     /**
-     * Parse a single column definition.
+     * Parse AND-separated terms.
      */
-    private parseColumnDefinition(): ColumnDefinition {
-        const name = this.consumeIdentifier();
-        const type = this.parseDataType();
-        const constraints = this.parseConstraints();
+    private parseAnd(): Expression {
+        let left = this.parseNot();
+
+        while (this.check('KEYWORD', 'AND')) {
+            this.advance();
+            const right = this.parseNot();
+            left = { type: 'LOGICAL', operator: 'AND', left, right };
+        }
 
-        return { name, type, constraints };
+        return left;
     }
 
     /**
-     * Parse a data type.
+     * Parse an optionally negated term.
      */
-    private parseDataType(): DataType {
-        const token = this.advance();
-
-        if (token.type !== 'KEYWORD') {
-            throw this.error(`Expected data type (INT, TEXT, BOOL), got '${token.value}'`);
-        }
-
-        const type = token.value.toUpperCase();
-        if (type !== 'INT' && type !== 'TEXT' && type !== 'BOOL') {
-            throw this.error(`Unknown data type: '${token.value}'. Supported: INT, TEXT, BOOL`);
+    private parseNot(): Expression {
+        if (this.check('KEYWORD', 'NOT')) {
+            this.advance();
+            return { type: 'NOT', operand: this.parseNot() };
         }
 
-        return type as DataType;
+        return this.parseComparison();
     }
 
     /**
-     * Parse column constraints.
+     * Parse a comparison or IS [NOT] NULL test.
      */
-    private parseConstraints(): ConstraintType[] {
-        const constraints: ConstraintType[] = [];
+    private parseComparison(): Expression {
+        const left = this.parseConcat();
 
-        while (true) {
-            if (this.check('KEYWORD', 'PRIMARY')) {
-                this.advance();
-                this.consume('KEYWORD', 'KEY');
-                constraints.push('PRIMARY_KEY');
-            } else if (this.check('KEYWORD', 'UNIQUE')) {
+        if (this.check('KEYWORD', 'IS')) {
+            this.advance();
+            let negated = false;
+            if (this.check('KEYWORD', 'NOT')) {
                 this.advance();
-                constraints.push('UNIQUE');
-            } else {
-                break;
+                negated = true;
             }
+            this.consume('KEYWORD', 'NULL');
+            return { type: 'IS_NULL', operand: left, negated };
+        }
+
+        const token = this.peek();
+        if (token.type === 'OPERATOR' && COMPARISON_OPERATORS.has(token.value)) {
+            this.advance();
+            const right = this.parseConcat();
+            return {
+                type: 'COMPARISON',
+                operator: token.value as ComparisonOperator,
+                left,
+                right,
+            };
         }
 
-        return constraints;
+        return left;
     }
 
     /**
-     * Parse INSERT statement.
+     * Parse string concatenation, which binds more loosely than
+     * arithmetic (left-associative).
      */
-    private parseInsert(): InsertStatement {
-        this.consume('KEYWORD', 'INSERT');
-        this.consume('KEYWORD', 'INTO');
+    private parseConcat(): Expression {
+        let left = this.parseAdditive();
 
-        const tableName = this.consumeIdentifier();
+        while (this.check('OPERATOR', '||')) {
+            this.advance();
+            const right = this.parseAdditive();
+            left = { type: 'ARITHMETIC', operator: '||', left, right };
+        }
 
-        this.consume('PUNCTUATION', '(');
-        const columns = this.parseIdentifierList();
-        this.consume('PUNCTUATION', ')');
+        return left;
+    }
 
-        this.consume('KEYWORD', 'VALUES');
+    /**
+     * Parse addition and subtraction (left-associative).
+     */
+    private parseAdditive(): Expression {
+        let left = this.parseMultiplicative();
 
-        this.consume('PUNCTUATION', '(');
-        const values = this.parseValueList();
-        this.consume('PUNCTUATION', ')');
+        while (this.check('OPERATOR', '+') || this.check('OPERATOR', '-')) {
+            const operator = this.advance().value as ArithmeticOperator;
+            const right = this.parseMultiplicative();
+            left = { type: 'ARITHMETIC', operator, left, right };
+        }
 
-        return {
-            type: 'INSERT',
-            tableName,
-            columns,
-            values,
-        };
+        return left;
     }
 
     /**
-     * Parse a list of identifiers.
+     * Parse multiplication, division and remainder (left-associative).
+     * The tokenizer reads '*' as STAR, since it also means "all columns".
      */
-    private parseIdentifierList(): string[] {
-        const identifiers: string[] = [];
-
-        identifiers.push(this.consumeIdentifier());
+    private parseMultiplicative(): Expression {
+        let left = this.parseUnary();
 
-        while (this.check('PUNCTUATION', ',')) {
-            this.advance();
-            identifiers.push(this.consumeIdentifier());
+        while (this.check('STAR') || this.check('OPERATOR', '/') || this.check('OPERATOR', '%')) {
+            const operator = this.advance().value as ArithmeticOperator;
+            const right = this.parseUnary();
+            left = { type: 'ARITHMETIC', operator, left, right };
         }
 
-        return identifiers;
+        return left;
     }
 
     /**
-     * Parse a list of values.
+     * Parse an optionally negated operand. A minus sign directly before a
+     * number is left to parsePrimary, which folds it into the literal.
      */
-    private parseValueList(): Value[] {
-        const values: Value[] = [];
-
-        values.push(this.parseValue());
-
-        while (this.check('PUNCTUATION', ',')) {
+    private parseUnary(): Expression {
+        if (this.check('OPERATOR', '-') && this.peekNext().type !== 'NUMBER') {
             this.advance();
-            values.push(this.parseValue());
+            return { type: 'NEGATE', operand: this.parseUnary() };
         }
 
-        return values;
+        return this.parsePrimary();
     }
 
     /**
-     * Parse a single value.
+     * Parse a literal, column reference, function call or parenthesized expression.
      */
-    private parseValue(): Value {
-        const token = this.peek();
-
-        if (token.type === 'NUMBER') {
+    private parsePrimary(): Expression {
+        if (this.check('PUNCTUATION', '(')) {
             this.advance();
-            return parseInt(token.value, 10);
+            const expr = this.parseExpression();
+            this.consume('PUNCTUATION', ')');
+            return expr;
         }
 
-        if (token.type === 'STRING') {
-            this.advance();
-            return token.value;
+        const token = this.peek();
+        if (
+            token.type === 'NUMBER' ||
+            token.type === 'STRING' ||
+            token.type === 'BOOLEAN' ||
+            (token.type === 'KEYWORD' && token.value === 'NULL') ||
+            (token.type === 'OPERATOR' && token.value === '-' && this.peekNext().type === 'NUMBER') ||
+            this.isTypedLiteral()
+        ) {
+            return { type: 'LITERAL', value: this.parseValue() };
         }
 
-        if (token.type === 'BOOLEAN') {
-            this.advance();
-            return token.value === 'TRUE';
+        if (
+            token.type === 'IDENTIFIER' &&
+            this.isAggregateName(token.value.toUpperCase()) &&
+            this.peekNext().value === '('
+        ) {
+            return this.parseAggregate();
         }
 
-        if (token.type === 'KEYWORD' && token.value === 'NULL') {
-            this.advance();
-            return null;
+        if (token.type === 'IDENTIFIER' && this.peekNext().value === '(') {
+            return this.parseFunctionCall();
         }
 
-        throw this.error(`Expected value, got '${token.value}'`);
+        if (token.type === 'IDENTIFIER' || token.type === 'KEYWORD') {
+            return { type: 'COLUMN', column: this.parseColumnReference() };
+        }
+
+        throw this.error(`Expected expression, got '${token.value}'`);
     }
 
     /**
-     * Parse SELECT statement.
+     * Check whether a name is a built-in or user-defined aggregate function.
      */
-    private parseSelect(): SelectStatement {
-        this.consume('KEYWORD', 'SELECT');
+    private isAggregateName(name: string): boolean {
+        return AGGREGATE_FUNCTIONS.has(name) || this.functions?.aggregates.has(name) === true;
+    }
+
+    /**
+     * Parse an aggregate function call.
+     */
+    private parseAggregate(): AggregateExpression {
+        const name = this.advance().value.toUpperCase();
+        this.consume('PUNCTUATION', '(');
 
-        let columns: string[] | '*';
         if (this.check('STAR')) {
+            if (name !== 'COUNT') {
+                throw this.error(`${name}(*) is not supported; only COUNT(*) is`);
+            }
             this.advance();
-            columns = '*';
-        } else {
-            columns = this.parseColumnList();
+            this.consume('PUNCTUATION', ')');
+            return { type: 'AGGREGATE', name, argument: '*', distinct: false };
         }
 
-        this.consume('KEYWORD', 'FROM');
-        const tableName = this.consumeIdentifier();
-
-        let join: JoinClause | undefined;
-        if (this.check('KEYWORD', 'INNER')) {
-            join = this.parseJoinClause();
+        let distinct = false;
+        if (this.check('KEYWORD', 'DISTINCT')) {
+            this.advance();
+            distinct = true;
         }
 
-        let where: WhereCondition | undefined;
-        if (this.check('KEYWORD', 'WHERE')) {
-            where = this.parseWhereClause();
-        }
+        const argument = this.parseExpression();
+        this.consume('PUNCTUATION', ')');
 
-        return {
-            type: 'SELECT',
-            columns,
-            tableName,
-            join,
-            where,
-        };
+        return { type: 'AGGREGATE', name, argument, distinct };
     }
 
     /**
-     * Parse a column list for SELECT.
+     * Parse a scalar function call. The call is checked against the
+     * function's signature here rather than at execution time: argument
+     * counts, argument types where they are already known, and calls on
+     * literals only (e.g. CAST('abc' AS INT)) by evaluating them once.
      */
-    private parseColumnList(): string[] {
-        const columns: string[] = [];
-
-        columns.push(this.parseColumnReference());
+    private parseFunctionCall(): FunctionExpression {
+        const name = this.advance().value.toUpperCase();
+        this.consume('PUNCTUATION', '(');
 
-        while (this.check('PUNCTUATION', ',')) {
-            this.advance();
-            columns.push(this.parseColumnReference());
+        let args: Expression[];
+        if (name === 'EXTRACT') {
+            args = this.parseExtractArguments();
+        } else if (name === 'CAST') {
+            args = this.parseCastArguments();
+        } else {
+            args = [];
+            if (!this.check('PUNCTUATION', ')')) {
+                args.push(this.parseExpression());
+                while (this.check('PUNCTUATION', ',')) {
+                    this.advance();
+                    args.push(this.parseExpression());
+                }
+            }
+            this.consume('PUNCTUATION', ')');
         }
 
-        return columns;
-    }
-
-    /**
-     * Parse a column reference (may include table.column format).
-     */
-    private parseColumnReference(): string {
-        let name = this.consumeIdentifier();
-
-        if (this.check('PUNCTUATION', '.')) {
-            this.advance();
-            const column = this.consumeIdentifier();
-            name = `${name}.${column}`;
+        const [unit] = args;
+        if (
+            name === 'NEXTVAL' &&
+            unit?.type === 'LITERAL' &&
+            typeof unit.value !== 'string'
+        ) {
+            throw this.error(`NEXTVAL expects a sequence name string, e.g. NEXTVAL('order_numbers')`);
+        }
+        if (
+            name === 'DATE_TRUNC' &&
+            unit?.type === 'LITERAL' &&
+            !(typeof unit.value === 'string' && (TRUNCATE_UNITS as readonly string[]).includes(unit.value.toLowerCase()))
+        ) {
+            throw this.error(`DATE_TRUNC unit must be one of ${TRUNCATE_UNITS.join(', ')}`);
         }
 
-        return name;
+        const call: FunctionExpression = { type: 'FUNCTION', name, args };
+        const problem = checkFunctionCall(call, this.functions);
+        if (problem) {
+            throw this.error(problem);
+        }
+        return call;
     }
 
     /**
-     * Parse JOIN clause.
+     * Parse the arguments of EXTRACT(field FROM expression).
      */
-    private parseJoinClause(): JoinClause {
-        this.consume('KEYWORD', 'INNER');
-        this.consume('KEYWORD', 'JOIN');
-
-        const table = this.consumeIdentifier();
-
-        this.consume('KEYWORD', 'ON');
+    private parseExtractArguments(): Expression[] {
+        const token = this.advance();
+        const field = token.value.toUpperCase();
+        if (!(EXTRACT_FIELDS as readonly string[]).includes(field)) {
+            throw this.error(`EXTRACT field must be one of ${EXTRACT_FIELDS.join(', ')}, got '${token.value}'`);
+        }
 
-        const leftColumn = this.parseColumnReference();
-        this.consume('OPERATOR', '=');
-        const rightColumn = this.parseColumnReference();
+        this.consume('KEYWORD', 'FROM');
+        const source = this.parseExpression();
+        this.consume('PUNCTUATION', ')');
 
-        return {
-            type: 'INNER',
-            table,
-            leftColumn,
-            rightColumn,
-        };
+        return [{ type: 'LITERAL', value: field }, source];
     }
 
     /**
-     * Parse WHERE clause.
+     * Parse the arguments of CAST(expression AS type). The type name
+     * becomes a string literal argument, followed by the precision and
+     * scale when a DECIMAL type gives them.
      */
-    private parseWhereClause(): WhereCondition {
-        this.consume('KEYWORD', 'WHERE');
+    private parseCastArguments(): Expression[] {
+        const operand = this.parseExpression();
+        this.consume('KEYWORD', 'AS');
+        const type = this.parseDataType();
+        const args: Expression[] = [operand, { type: 'LITERAL', value: type }];
 
-        const column = this.parseColumnReference();
-        this.consume('OPERATOR', '=');
-        const value = this.parseValue();
+        if (type === 'DECIMAL' && this.check('PUNCTUATION', '(')) {
+            const { precision, scale } = this.parseDecimalModifiers();
+            args.push({ type: 'LITERAL', value: precision }, { type: 'LITERAL', value: scale });
+        }
+        this.consume('PUNCTUATION', ')');
 
-        return {
-            column,
-            operator: '=',
-            value,
-        };
+        return args;
     }
 
     /**
@@ -413,14 +1513,15 @@ export class Parser {
             tableName,
             set,
             where,
+            returning: this.parseReturning(),
         };
     }
 
     /**
-     * Parse SET assignments.
+     * Parse SET assignments (UPDATE and ON CONFLICT DO UPDATE).
      */
-    private parseAssignments(): Record<string, Value> {
-        const assignments: Record<string, Value> = {};
+    private parseAssignments(): Record<string, Expression> {
+        const assignments: Record<string, Expression> = {};
 
         const first = this.parseAssignment();
         assignments[first.column] = first.value;
@@ -437,10 +1538,10 @@ export class Parser {
     /**
      * Parse a single assignment.
      */
-    private parseAssignment(): { column: string; value: Value } {
+    private parseAssignment(): { column: string; value: Expression } {
         const column = this.consumeIdentifier();
         this.consume('OPERATOR', '=');
-        const value = this.parseValue();
+        const value = this.parseExpression();
         return { column, value };
     }
 
@@ -462,9 +1563,26 @@ export class Parser {
             type: 'DELETE',
             tableName,
             where,
+            returning: this.parseReturning(),
         };
     }
 
+    /**
+     * Parse an optional RETURNING clause of INSERT, UPDATE or DELETE.
+     */
+    private parseReturning(): SelectItem[] | '*' | undefined {
+        if (!this.check('KEYWORD', 'RETURNING')) {
+            return undefined;
+        }
+        this.advance();
+
+        if (this.check('STAR')) {
+            this.advance();
+            return '*';
+        }
+        return this.parseColumnList();
+    }
+
     /**
      * Parse SHOW TABLES statement.
      */
@@ -488,6 +1606,125 @@ export class Parser {
         };
     }
 
+    /**
+     * Parse CREATE [UNIQUE] INDEX statement.
+     */
+    private parseCreateIndex(): CreateIndexStatement {
+        this.consume('KEYWORD', 'CREATE');
+
+        const unique = this.check('KEYWORD', 'UNIQUE');
+        if (unique) {
+            this.advance();
+        }
+
+        this.consume('KEYWORD', 'INDEX');
+        const indexName = this.consumeIdentifier();
+
+        this.consume('KEYWORD', 'ON');
+        const tableName = this.consumeIdentifier();
+
+        this.consume('PUNCTUATION', '(');
+        const columnName = this.consumeIdentifier();
+        this.consume('PUNCTUATION', ')');
+
+        return {
+            type: 'CREATE_INDEX',
+            indexName,
+            tableName,
+            columnName,
+            unique,
+        };
+    }
+
+    /**
+     * Parse DROP INDEX statement.
+     */
+    private parseDropIndex(): DropIndexStatement {
+        this.consume('KEYWORD', 'DROP');
+        this.consume('KEYWORD', 'INDEX');
+
+        return {
+            type: 'DROP_INDEX',
+            indexName: this.consumeIdentifier(),
+        };
+    }
+
+    /**
+     * Parse CREATE SEQUENCE statement.
+     * START defaults to 1 and INCREMENT to 1.
+     */
+    private parseCreateSequence(): CreateSequenceStatement {
+        this.consume('KEYWORD', 'CREATE');
+        this.consume('KEYWORD', 'SEQUENCE');
+
+        const sequence = { name: this.consumeIdentifier(), start: 1, increment: 1 };
+
+        while (true) {
+            if (this.check('KEYWORD', 'START')) {
+                this.advance();
+                if (this.check('KEYWORD', 'WITH')) {
+                    this.advance();
+                }
+                sequence.start = this.parseInteger('START');
+            } else if (this.check('KEYWORD', 'INCREMENT')) {
+                this.advance();
+                if (this.check('KEYWORD', 'BY')) {
+                    this.advance();
+                }
+                sequence.increment = this.parseInteger('INCREMENT');
+            } else {
+                break;
+            }
+        }
+
+        return { type: 'CREATE_SEQUENCE', sequence };
+    }
+
+    /**
+     * Parse DROP SEQUENCE statement.
+     */
+    private parseDropSequence(): DropSequenceStatement {
+        this.consume('KEYWORD', 'DROP');
+        this.consume('KEYWORD', 'SEQUENCE');
+
+        return {
+            type: 'DROP_SEQUENCE',
+            sequenceName: this.consumeIdentifier(),
+        };
+    }
+
+    /**
+     * Parse an optionally negative integer argument (START / INCREMENT).
+     */
+    private parseInteger(clause: string): number {
+        const negative = this.check('OPERATOR', '-');
+        if (negative) {
+            this.advance();
+        }
+
+        const token = this.peek();
+        const value = token.type === 'NUMBER' ? Number(token.value) : NaN;
+        if (!Number.isSafeInteger(value)) {
+            throw this.error(`${clause} expects an integer, got '${token.value}'`);
+        }
+
+        this.advance();
+        return negative ? -value : value;
+    }
+
+    /**
+     * Parse BEGIN / COMMIT / ROLLBACK.
+     */
+    private parseTransactionControl(): TransactionStatement {
+        const keyword = this.advance().value as TransactionStatement['type'];
+
+        if (this.check('KEYWORD', 'TRANSACTION')) {
+            this.advance();
+        }
+
+        return { type: keyword };
+    }
+
     // ==========================================================================
     // HELPER METHODS
     // ==========================================================================
@@ -499,6 +1736,13 @@ export class Parser {
         return this.tokens[this.current];
     }
 
+    /**
+     * Get the token after the current one.
+     */
+    private peekNext(): Token {
+        return this.tokens[Math.min(this.current + 1, this.tokens.length - 1)];
+    }
+
     /**
      * Check if we've reached the end of tokens.
      */
@@ -540,6 +1784,15 @@ export class Parser {
         throw this.error(`Expected ${expected}, got '${token.value}'`);
     }
 
+    /**
+     * Consume an optional keyword, such as COLUMN in ADD COLUMN.
+     */
+    private skipKeyword(keyword: string): void {
+        if (this.check('KEYWORD', keyword)) {
+            this.advance();
+        }
+    }
+
     /**
      * Consume an identifier token.
      */
@@ -34,12 +34,20 @@ const KEYWORDS = new Set([
     'CREATE', 'TABLE', 'INSERT', 'INTO', 'VALUES', 'SELECT', 'FROM',
     'WHERE', 'UPDATE', 'SET', 'DELETE', 'INNER', 'JOIN', 'ON',
     'INT', 'TEXT', 'BOOL', 'PRIMARY', 'KEY', 'UNIQUE', 'AND', 'OR',
-    'NULL', 'NOT', 'SHOW', 'TABLES', 'DESCRIBE', 'DROP',
-    'TRUE', 'FALSE'
+    'NULL', 'NOT', 'IS', 'SHOW', 'TABLES', 'DESCRIBE', 'DROP',
+    'TRUE', 'FALSE', 'ORDER', 'BY', 'ASC', 'DESC', 'NULLS', 'FIRST', 'LAST',
+    'LIMIT', 'OFFSET', 'GROUP', 'HAVING', 'DISTINCT',
+    'BEGIN', 'COMMIT', 'ROLLBACK', 'TRANSACTION', 'INDEX',
+    'LEFT', 'RIGHT', 'FULL', 'OUTER', 'CROSS', 'AS', 'DECIMAL', 'NUMERIC',
+    'DATE', 'TIMESTAMP', 'INTERVAL', 'REAL', 'FLOAT', 'DOUBLE', 'DEFAULT', 'CHECK',
+    'REFERENCES', 'FOREIGN', 'CONSTRAINT', 'CASCADE', 'RESTRICT', 'NO', 'ACTION',
+    'AUTOINCREMENT', 'SERIAL', 'SEQUENCE', 'START', 'WITH', 'INCREMENT',
+    'ALTER', 'ADD', 'COLUMN', 'RENAME', 'TO', 'TYPE', 'IF', 'EXISTS', 'TRUNCATE',
+    'CONFLICT', 'DO', 'NOTHING', 'RETURNING'
 ]);
 
 // Operators
-const OPERATORS = new Set(['=', '<', '>', '<=', '>=', '<>', '!=']);
+const OPERATORS = new Set(['=', '<', '>', '<=', '>=', '<>', '!=', '+', '-', '/', '%', '||']);
 
 // Punctuation
 const PUNCTUATION = new Set(['(', ')', ',', ';', '.']);
@@ -84,8 +92,9 @@ export class Tokenizer {
                 continue;
             }
 
-            // Numbers (including negative)
-            if (this.isDigit(char) || (char === '-' && this.isDigit(this.peek(1) || ''))) {
+            // Numbers. A leading '-' is tokenized as an operator, so that
+            // "a-1" is a subtraction; the parser folds it into negative literals.
+            if (this.isDigit(char)) {
                 this.readNumber();
                 continue;
             }
@@ -96,7 +105,7 @@ export class Tokenizer {
                 continue;
             }
 
-            // Star (for SELECT *)
+            // Star (SELECT *, COUNT(*) and multiplication)
             if (char === '*') {
                 this.addToken('STAR', '*');
                 this.advance();
@@ -104,7 +113,7 @@ export class Tokenizer {
             }
 
             // Multi-character operators
-            if (char === '<' || char === '>' || char === '!') {
+            if (char === '<' || char === '>' || char === '!' || char === '|') {
                 this.readOperator();
                 continue;
             }
@@ -248,23 +257,46 @@ export class Tokenizer {
     }
 
     /**
-     * Read a number literal.
+     * Read a number literal: an integer, a decimal with a fractional part,
+     * or either followed by an exponent (1.5e3, 2E-4).
      */
     private readNumber(): void {
-        let value = '';
+        let value = this.readDigits();
 
-        // Handle negative sign
-        if (this.input[this.position] === '-') {
+        // Fractional part (a '.' not followed by a digit is punctuation)
+        if (this.peek() === '.' && this.isDigit(this.peek(1) || '')) {
             value += this.advance();
+            value += this.readDigits();
         }
 
-        while (this.position < this.input.length && this.isDigit(this.input[this.position])) {
-            value += this.advance();
+        // Exponent
+        const next = this.peek();
+        if (next === 'e' || next === 'E') {
+            const sign = this.peek(1);
+            const signed = sign === '+' || sign === '-';
+            if (this.isDigit(this.peek(signed ? 2 : 1) || '')) {
+                value += this.advance();
+                if (signed) {
+                    value += this.advance();
+                }
+                value += this.readDigits();
+            }
         }
 
         this.addToken('NUMBER', value);
     }
 
+    /**
+     * Read a run of digits.
+     */
+    private readDigits(): string {
+        let digits = '';
+        while (this.position < this.input.length && this.isDigit(this.input[this.position])) {
+            digits += this.advance();
+        }
+        return digits;
+    }
+
     /**
      * Read an identifier or keyword.
      */
@@ -301,7 +333,7 @@ export class Tokenizer {
         let value = this.advance();
 
         const next = this.peek();
-        if (next === '=' || next === '>') {
+        if (next === '=' || next === '>' || (value === '|' && next === '|')) {
             value += this.advance();
         }
 
@@ -48,14 +48,44 @@ LedgerLite REPL Commands:
   .quit          Exit the REPL
 
 SQL Commands (end with semicolon):
-  CREATE TABLE name (col1 TYPE [constraints], ...);
-  INSERT INTO name (col1, ...) VALUES (val1, ...);
-  SELECT col1, ... FROM table [INNER JOIN t2 ON ...] [WHERE col = val];
-  UPDATE table SET col = val [WHERE col = val];
-  DELETE FROM table [WHERE col = val];
-
-Data Types: INT, TEXT, BOOL
-Constraints: PRIMARY KEY, UNIQUE
+  CREATE TABLE [IF NOT EXISTS] name (col1 TYPE [constraints], ...);
+  DROP TABLE [IF EXISTS] name; | TRUNCATE [TABLE] name;
+  ALTER TABLE name ADD [COLUMN] col TYPE [constraints] | DROP [COLUMN] col
+    | RENAME [COLUMN] col TO new | RENAME TO new | ALTER [COLUMN] col TYPE type;
+  INSERT INTO name (col1, ...) VALUES (val1, ...)[, (...)...]; | INSERT INTO name (col1, ...) SELECT ...;
+    [ON CONFLICT [(cols)] DO NOTHING | DO UPDATE SET col = expr, ...]  (excluded.col = proposed value)
+    [RETURNING * | col, ...]
+  SELECT expr [AS name], ... FROM table [alias] [[INNER|LEFT|RIGHT|FULL] JOIN t2 [alias] ON ... | CROSS JOIN t2]...
+    [WHERE condition]
+    [GROUP BY col, ...] [HAVING condition]
+    [ORDER BY col [ASC|DESC] [NULLS FIRST|LAST], ...] [LIMIT n] [OFFSET m];
+  UPDATE table SET col = expr, ... [WHERE condition] [RETURNING * | col, ...];
+  DELETE FROM table [WHERE condition] [RETURNING * | col, ...];
+  CREATE [UNIQUE] INDEX name ON table (col);
+  DROP INDEX name;
+  CREATE SEQUENCE name [START WITH n] [INCREMENT BY n]; | DROP SEQUENCE name;
+  BEGIN; ... COMMIT; | ROLLBACK;
+
+WHERE conditions:
+  col = val, col <> val, col < val, col >= val, col IS [NOT] NULL,
+  combined with AND, OR, NOT and parentheses
+
+Expressions: + - * / % (integer / truncates), || (concatenation), unary minus,
+  parentheses; usable in SELECT lists, WHERE, SET and VALUES
+
+Aggregates: COUNT(*), COUNT([DISTINCT] col), SUM, MIN, MAX, AVG
+Functions: UPPER, LOWER, LENGTH, SUBSTR(s, start[, len]), TRIM(s[, chars]),
+  REPLACE(s, from, to), ABS, ROUND(x[, digits]), MOD(x, y),
+  COALESCE(a, b, ...), IFNULL(a, b), NULLIF(a, b), CAST(x AS type)
+Date functions: NOW(), DATE_TRUNC('month', d), EXTRACT(YEAR FROM d),
+  d + INTERVAL '1 month', d - 7, d1 - d2
+Sequences: NEXTVAL('name')
+
+Data Types: INT, TEXT, BOOL, DECIMAL(p,s) (alias NUMERIC), REAL (alias FLOAT, DOUBLE),
+  DATE, TIMESTAMP, SERIAL (INT AUTOINCREMENT)
+Constraints: PRIMARY KEY, UNIQUE, NOT NULL, AUTOINCREMENT, DEFAULT expr, CHECK (condition),
+  REFERENCES t(col) [ON DELETE|UPDATE RESTRICT|CASCADE|SET NULL],
+  PRIMARY KEY (a, b), UNIQUE (a, b), FOREIGN KEY (a, b) REFERENCES t(x, y)
 
 Examples:
   CREATE TABLE users (id INT PRIMARY KEY, name TEXT, active BOOL);
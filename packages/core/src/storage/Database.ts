@@ -8,23 +8,115 @@
  * - Tables are stored in a Map for O(1) lookup by name
  * - Persistence uses JSON serialization to disk
  * - Database can be saved/loaded to support optional persistence
+ * - Transactions use an undo log: every row change and schema change
+ *   (tables, indexes, sequences) made while a transaction is open is
+ *   recorded so it can be reverted
+ * - Index names are unique across the whole database, so DROP INDEX needs
+ *   no table name
+ * - Nested transaction() calls act as savepoints within the outer transaction
+ * - With a persistence path set, every committed change is appended to a
+ *   write-ahead log next to the snapshot; load() replays it, and a checkpoint
+ *   (save) rewrites the snapshot and empties the log
+ * - Foreign keys are enforced here, since they span tables: every row
+ *   change reported by a table is checked (and cascaded) right after it is
+ *   applied, inside the statement's transaction, so a violation rolls back
+ *   the change and everything it cascaded to
+ * - Sequences live in their own namespace. NEXTVAL advances are logged
+ *   like schema changes but never undone: a rollback keeps them, so a
+ *   value handed out once is not handed out again
+ * - ALTER TABLE builds a new table and swaps it in; its log record carries
+ *   the rebuilt table, so recovery never re-runs value conversions or
+ *   DEFAULTs. TRUNCATE likewise swaps in an empty copy, and a rollback of
+ *   either puts the old table back
+ * - User-defined functions are application code, not data: they are
+ *   registered on each Database instance, are not affected by transactions
+ *   and are not saved; stored DEFAULT and CHECK expressions cannot use them
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { Table } from './Table';
-import { TableSchema, SerializedDatabase } from '../types';
+import { WriteAheadLog } from './WriteAheadLog';
+import { Sequence } from './Sequence';
+import {
+    TableSchema,
+    ColumnDefinition,
+    DataType,
+    AlterTableAction,
+    ColumnExpression,
+    Expression,
+    IndexDefinition,
+    SerializedDatabase,
+    TableChange,
+    WalRecord,
+    PersistenceOptions,
+    ForeignKeyDefinition,
+    SequenceDefinition,
+    ScalarFunctionDefinition,
+    AggregateFunctionDefinition,
+    InternalRow,
+    Row,
+    Value,
+} from '../types';
+import {
+    compareKeys,
+    castValue,
+    collectExpressions,
+    formatExpression,
+    userScalarFunction,
+    BUILTIN_FUNCTIONS,
+    EvaluationContext,
+    FunctionCatalog,
+    ScalarFunction,
+} from '../engine/ExpressionEvaluator';
+import { AGGREGATE_FUNCTIONS } from '../engine/Aggregator';
+import { Parser } from '../parser/Parser';
+import { Token, Tokenizer } from '../parser/Tokenizer';
 
 const DATABASE_VERSION = '1.0.0';
 
+const DEFAULT_CHECKPOINT_INTERVAL = 1000;
+
+/** Data types a user-defined function may declare. */
+const FUNCTION_TYPES: ReadonlySet<string> = new Set<DataType>(['INT', 'TEXT', 'BOOL', 'DECIMAL', 'REAL', 'DATE', 'TIMESTAMP']);
+
+/**
+ * A single entry in the transaction undo log: either a row change on a
+ * table, or a schema change with its log record and inverse operation.
+ */
+type UndoEntry =
+    | { kind: 'ROW'; table: Table; change: TableChange }
+    | { kind: 'SCHEMA'; record: WalRecord; undo: () => void };
+
 export class Database {
     private tables: Map<string, Table>;
+    private sequences: Map<string, Sequence>;
+    private functions: {
+        scalars: Map<string, ScalarFunction>;
+        aggregates: Map<string, AggregateFunctionDefinition>;
+    };
+    private evaluationContext: EvaluationContext;
     private name: string;
     private persistPath?: string;
+    private undoLog: UndoEntry[] | null;
+    private wal?: WriteAheadLog;
+    private walSequence: number;
+    private commitsSinceCheckpoint: number;
+    private checkpointInterval: number;
 
     constructor(name: string = 'ledgerlite') {
         this.name = name;
         this.tables = new Map();
+        this.sequences = new Map();
+        this.functions = { scalars: new Map(), aggregates: new Map() };
+        this.evaluationContext = {
+            nextValue: sequenceName => this.nextValue(sequenceName),
+            functions: this.functions,
+        };
+        this.undoLog = null;
+        this.walSequence = 0;
+        this.commitsSinceCheckpoint = 0;
+        this.checkpointInterval = DEFAULT_CHECKPOINT_INTERVAL;
     }
 
     /**
@@ -59,25 +151,94 @@ export class Database {
             columnNames.add(lowerName);
         }
 
-        // Find and validate primary key
+        // Find and validate the primary key: either a table-level
+        // PRIMARY KEY (a, b) or a PRIMARY KEY constraint on one column
         const pkColumns = schema.columns.filter(c =>
             c.constraints.includes('PRIMARY_KEY')
         );
 
-        if (pkColumns.length > 1) {
-            throw new Error('Only single-column PRIMARY KEY is supported');
+        if (pkColumns.length > 1 || (pkColumns.length > 0 && schema.primaryKey)) {
+            throw new Error(`Multiple primary keys for table '${schema.tableName}' are not allowed`);
+        }
+
+        if (schema.primaryKey) {
+            schema.primaryKey = this.resolveKeyColumns(schema, schema.primaryKey, 'PRIMARY KEY');
+            // Marking each key column makes it NOT NULL and shows it in DESCRIBE
+            for (const name of schema.primaryKey) {
+                schema.columns.find(c => c.name === name)!.constraints.push('PRIMARY_KEY');
+            }
+        } else if (pkColumns.length === 1) {
+            schema.primaryKey = [pkColumns[0].name];
         }
 
-        if (pkColumns.length === 1) {
-            schema.primaryKey = pkColumns[0].name;
+        // UNIQUE (a) on a single column is the same as a UNIQUE column
+        const uniqueKeys: string[][] = [];
+        for (const key of schema.uniqueKeys ?? []) {
+            const columns = this.resolveKeyColumns(schema, key, 'UNIQUE');
+            const column = schema.columns.find(c => c.name === columns[0])!;
+            if (columns.length > 1) {
+                uniqueKeys.push(columns);
+            } else if (!column.constraints.includes('UNIQUE')) {
+                column.constraints.push('UNIQUE');
+            }
+        }
+        if (uniqueKeys.length > 0) {
+            schema.uniqueKeys = uniqueKeys;
+        } else {
+            delete schema.uniqueKeys;
+        }
+
+        for (const column of schema.columns) {
+            this.validateAutoIncrement(column);
         }
 
+        this.validateForeignKeys(schema);
+
         const table = new Table(schema);
+        this.attachTable(table);
         this.tables.set(tableName, table);
 
+        this.recordSchemaChange(
+            { type: 'CREATE_TABLE', schema: structuredClone(schema) },
+            () => {
+                this.tables.delete(tableName);
+            }
+        );
+
         return table;
     }
 
+    /**
+     * Check that an AUTOINCREMENT column is an INT without a DEFAULT.
+     */
+    private validateAutoIncrement(column: ColumnDefinition): void {
+        if (column.autoIncrement && column.type !== 'INT') {
+            throw new Error(`AUTOINCREMENT column '${column.name}' must be INT, not ${column.type}`);
+        }
+        if (column.autoIncrement && column.default !== undefined) {
+            throw new Error(`AUTOINCREMENT column '${column.name}' cannot have a DEFAULT`);
+        }
+    }
+
+    /**
+     * Resolve the columns of a table-level PRIMARY KEY or UNIQUE constraint
+     * to their declared names, rejecting unknown and repeated columns.
+     */
+    private resolveKeyColumns(schema: TableSchema, names: string[], constraint: string): string[] {
+        const resolved: string[] = [];
+        for (const name of names) {
+            const column = schema.columns.find(c => c.name.toLowerCase() === name.toLowerCase());
+            if (!column) {
+                throw new Error(`${constraint} references unknown column '${name}'`);
+            }
+            if (resolved.includes(column.name)) {
+                throw new Error(`Column '${column.name}' appears twice in ${constraint}`);
+            }
+            resolved.push(column.name);
+        }
+        return resolved;
+    }
+
     /**
      * Get a table by name.
      */
@@ -101,27 +262,1152 @@ export class Database {
 
     /**
      * Drop a table.
+     * Fails if another table has a foreign key referencing it.
      */
     dropTable(name: string): boolean {
-        return this.tables.delete(name.toLowerCase());
+        const tableName = name.toLowerCase();
+        const table = this.tables.get(tableName);
+        if (!table) {
+            return false;
+        }
+
+        const reference = this.referencingKeys(table).find(ref => ref.table !== table);
+        if (reference) {
+            throw new Error(
+                `Cannot drop table '${table.getName()}': foreign key '${reference.key.name}' ` +
+                `of table '${reference.table.getName()}' references it`
+            );
+        }
+
+        this.removeTable(table);
+        return true;
+    }
+
+    /**
+     * Remove a table without checking references to it.
+     */
+    private removeTable(table: Table): void {
+        const tableName = table.getName().toLowerCase();
+        this.tables.delete(tableName);
+        this.recordSchemaChange(
+            { type: 'DROP_TABLE', tableName },
+            () => {
+                this.tables.set(tableName, table);
+            }
+        );
+    }
+
+    /**
+     * Remove every row of a table (TRUNCATE). The table is replaced by an
+     * empty copy, so its indexes start out fresh. Fails while rows of
+     * another table reference it.
+     * @returns The number of rows removed
+     */
+    truncateTable(name: string): number {
+        const table = this.getTable(name);
+        if (!table) {
+            throw new Error(`Table '${name}' does not exist`);
+        }
+
+        for (const { table: child, key } of this.referencingKeys(table)) {
+            const referenced = child !== table && child.getAllRows().some(row =>
+                key.columns.every(column => row.data[column] !== null)
+            );
+            if (referenced) {
+                throw new Error(
+                    `Cannot truncate table '${table.getName()}': foreign key '${key.name}' ` +
+                    `of table '${child.getName()}' references its rows`
+                );
+            }
+        }
+
+        const emptied = table.truncated();
+        this.replaceTable(table, emptied, new Map());
+        this.recordSchemaChange(
+            { type: 'TRUNCATE_TABLE', tableName: table.getName() },
+            () => {
+                this.replaceTable(emptied, table, new Map());
+            }
+        );
+
+        return table.count();
+    }
+
+    /**
+     * Put a new version of a table (altered or truncated) in place of the
+     * current one, keeping its position among the tables. Other tables'
+     * foreign keys follow a renamed table or column.
+     */
+    private replaceTable(current: Table, replacement: Table, columnRenames: Map<string, string>): void {
+        const oldName = current.getName();
+        this.tables = new Map(Array.from(this.tables, ([name, table]): [string, Table] =>
+            table === current ? [replacement.getName().toLowerCase(), replacement] : [name, table]
+        ));
+        this.attachTable(replacement);
+
+        for (const other of this.tables.values()) {
+            if (other === replacement) {
+                continue;
+            }
+            for (const key of other.getSchema().foreignKeys ?? []) {
+                if (key.referencedTable.toLowerCase() === oldName.toLowerCase()) {
+                    key.referencedTable = replacement.getName();
+                    key.referencedColumns = key.referencedColumns.map(c => columnRenames.get(c) ?? c);
+                }
+            }
+        }
+    }
+
+    /**
+     * Create a secondary index on a table.
+     */
+    createIndex(tableName: string, definition: IndexDefinition): void {
+        const table = this.getTable(tableName);
+        if (!table) {
+            throw new Error(`Table '${tableName}' does not exist`);
+        }
+
+        if (this.findIndexTable(definition.indexName)) {
+            throw new Error(`Index '${definition.indexName}' already exists`);
+        }
+
+        table.createIndex(definition);
+        const created = table.getIndexDefinition(definition.indexName)!;
+
+        this.recordSchemaChange(
+            { type: 'CREATE_INDEX', tableName: table.getName(), index: { ...created } },
+            () => {
+                table.dropIndex(created.indexName);
+            }
+        );
+    }
+
+    /**
+     * Drop a secondary index.
+     */
+    dropIndex(indexName: string): boolean {
+        const table = this.findIndexTable(indexName);
+        const definition = table?.dropIndex(indexName);
+        if (!table || !definition) {
+            return false;
+        }
+
+        this.recordSchemaChange(
+            { type: 'DROP_INDEX', tableName: table.getName(), indexName: definition.indexName },
+            () => {
+                table.createIndex(definition);
+            }
+        );
+
+        return true;
+    }
+
+    /**
+     * Find the table that owns a secondary index.
+     */
+    private findIndexTable(indexName: string): Table | undefined {
+        for (const table of this.tables.values()) {
+            if (table.getIndexDefinition(indexName)) {
+                return table;
+            }
+        }
+        return undefined;
     }
 
     /**
-     * Clear all tables.
+     * Clear all tables and sequences.
+     * Every table goes, so foreign keys between them do not block the drop.
      */
     clear(): void {
-        this.tables.clear();
+        this.assertNoTransaction('clear the database');
+        for (const table of Array.from(this.tables.values()).reverse()) {
+            this.removeTable(table);
+        }
+        for (const name of Array.from(this.sequences.keys())) {
+            this.dropSequence(name);
+        }
+    }
+
+    // ==========================================================================
+    // ALTER TABLE
+    // ==========================================================================
+
+    /**
+     * Change a table's schema: add, drop, rename or retype a column, or
+     * rename the table.
+     *
+     * The table is rebuilt under the new schema and swapped in, so its rows,
+     * indexes and schema always agree; a failure (such as a value that cannot
+     * be converted) leaves the old table in place. Foreign keys of other
+     * tables follow a renamed table or column.
+     */
+    alterTable(tableName: string, action: AlterTableAction): Table {
+        const table = this.getTable(tableName);
+        if (!table) {
+            throw new Error(`Table '${tableName}' does not exist`);
+        }
+
+        const schema: TableSchema = structuredClone(table.getSchema());
+        const resolved: AlterTableAction = structuredClone(action);
+        let convert = (row: Row): Row => row;
+
+        switch (resolved.type) {
+            case 'ADD_COLUMN':
+                this.addColumn(schema, resolved.column, resolved.foreignKeys ?? []);
+                break;
+
+            case 'DROP_COLUMN': {
+                const columnName = this.dropColumn(table, schema, resolved.columnName);
+                resolved.columnName = columnName;
+                convert = row => {
+                    delete row[columnName];
+                    return row;
+                };
+                break;
+            }
+
+            case 'RENAME_COLUMN': {
+                const { columnName, newName } = this.renameColumn(schema, resolved.columnName, resolved.newName);
+                resolved.columnName = columnName;
+                convert = row => {
+                    const { [columnName]: value, ...rest } = row;
+                    return { ...rest, [newName]: value };
+                };
+                break;
+            }
+
+            case 'RENAME_TABLE': {
+                const existing = this.getTable(resolved.newName);
+                if (existing && existing !== table) {
+                    throw new Error(`Table '${existing.getName()}' already exists`);
+                }
+                for (const key of schema.foreignKeys ?? []) {
+                    if (key.referencedTable.toLowerCase() === schema.tableName.toLowerCase()) {
+                        key.referencedTable = resolved.newName;
+                    }
+                }
+                schema.tableName = resolved.newName;
+                break;
+            }
+
+            case 'ALTER_COLUMN_TYPE': {
+                const column = this.changeColumnType(table, schema, resolved);
+                resolved.columnName = column.name;
+                convert = row => {
+                    row[column.name] = castValue(row[column.name], column.type);
+                    return row;
+                };
+                break;
+            }
+        }
+
+        const renames = this.columnRenames(resolved);
+
+        return this.transaction(() => {
+            const rebuilt = table.rebuild(schema, convert, renames);
+            this.replaceTable(table, rebuilt, renames);
+            this.recordSchemaChange(
+                {
+                    type: 'ALTER_TABLE',
+                    tableName: table.getName(),
+                    action: resolved,
+                    table: JSON.parse(JSON.stringify(rebuilt.serialize())),
+                },
+                () => {
+                    this.replaceTable(rebuilt, table, new Map(Array.from(renames, ([from, to]) => [to, from])));
+                }
+            );
+
+            // A new foreign key must hold for the rows already there
+            if (resolved.type === 'ADD_COLUMN' && resolved.foreignKeys) {
+                for (const row of rebuilt.getAllRows()) {
+                    this.checkReferences(rebuilt, row.data);
+                }
+            }
+
+            return rebuilt;
+        });
+    }
+
+    /**
+     * Add a column (and its REFERENCES constraint) to a schema.
+     */
+    private addColumn(schema: TableSchema, column: ColumnDefinition, foreignKeys: ForeignKeyDefinition[]): void {
+        if (schema.columns.some(c => c.name.toLowerCase() === column.name.toLowerCase())) {
+            throw new Error(`Column '${column.name}' already exists in table '${schema.tableName}'`);
+        }
+
+        if (column.constraints.includes('PRIMARY_KEY')) {
+            if (schema.primaryKey) {
+                throw new Error(`Multiple primary keys for table '${schema.tableName}' are not allowed`);
+            }
+            schema.primaryKey = [column.name];
+        }
+
+        this.validateAutoIncrement(column);
+        schema.columns.push(column);
+
+        if (foreignKeys.length > 0) {
+            schema.foreignKeys = [...(schema.foreignKeys ?? []), ...foreignKeys];
+            this.validateForeignKeys(schema);
+        }
+    }
+
+    /**
+     * Remove a column from a schema, along with its own foreign keys.
+     * A column that is part of a key, is referenced by a foreign key or is
+     * used by another column's CHECK cannot be dropped.
+     * @returns The column's declared name
+     */
+    private dropColumn(table: Table, schema: TableSchema, name: string): string {
+        const column = this.findColumn(schema, name);
+        const cannotDrop = (reason: string): Error =>
+            new Error(`Cannot drop column '${column.name}': ${reason}`);
+
+        if (schema.columns.length === 1) {
+            throw cannotDrop(`it is the only column of table '${schema.tableName}'`);
+        }
+        if (schema.primaryKey?.includes(column.name)) {
+            throw cannotDrop('it is part of the PRIMARY KEY');
+        }
+        const uniqueKey = schema.uniqueKeys?.find(key => key.includes(column.name));
+        if (uniqueKey) {
+            throw cannotDrop(`it is part of UNIQUE (${uniqueKey.join(', ')})`);
+        }
+        for (const { table: child, key } of this.referencingKeys(table)) {
+            if (key.referencedColumns.includes(column.name)) {
+                throw cannotDrop(`foreign key '${key.name}' of table '${child.getName()}' references it`);
+            }
+        }
+        for (const other of schema.columns) {
+            if (other !== column && other.check !== undefined &&
+                this.checkColumnReferences(other.check).some(ref => this.bareName(ref) === column.name)) {
+                throw cannotDrop(`the CHECK of column '${other.name}' uses it`);
+            }
+        }
+
+        schema.columns = schema.columns.filter(c => c !== column);
+        schema.foreignKeys = schema.foreignKeys?.filter(key => !key.columns.includes(column.name));
+        if (schema.foreignKeys?.length === 0) {
+            delete schema.foreignKeys;
+        }
+
+        return column.name;
+    }
+
+    /**
+     * Rename a column in a schema, including its keys, its table's own
+     * foreign keys and the CHECK expressions that use it.
+     */
+    private renameColumn(schema: TableSchema, name: string, newName: string): { columnName: string; newName: string } {
+        const column = this.findColumn(schema, name);
+        const existing = schema.columns.find(c => c !== column && c.name.toLowerCase() === newName.toLowerCase());
+        if (existing) {
+            throw new Error(`Column '${existing.name}' already exists in table '${schema.tableName}'`);
+        }
+
+        const columnName = column.name;
+        const rename = (c: string): string => c === columnName ? newName : c;
+
+        column.name = newName;
+        if (schema.primaryKey) {
+            schema.primaryKey = schema.primaryKey.map(rename);
+        }
+        if (schema.uniqueKeys) {
+            schema.uniqueKeys = schema.uniqueKeys.map(key => key.map(rename));
+        }
+        for (const key of schema.foreignKeys ?? []) {
+            key.columns = key.columns.map(rename);
+            if (key.referencedTable.toLowerCase() === schema.tableName.toLowerCase()) {
+                key.referencedColumns = key.referencedColumns.map(rename);
+            }
+        }
+
+        for (const other of schema.columns) {
+            if (other.check === undefined) {
+                continue;
+            }
+            const expr = Parser.parseExpression(other.check);
+            for (const ref of this.checkColumnReferences(expr)) {
+                if (this.bareName(ref) === columnName) {
+                    const dotIndex = ref.column.indexOf('.');
+                    ref.column = dotIndex === -1 ? newName : `${ref.column.slice(0, dotIndex)}.${newName}`;
+                }
+            }
+            other.check = formatExpression(expr);
+        }
+
+        return { columnName, newName };
+    }
+
+    /**
+     * Change a column's type in a schema. A column referenced by another
+     * table's foreign key keeps its type, since the two must match.
+     */
+    private changeColumnType(
+        table: Table,
+        schema: TableSchema,
+        action: Extract<AlterTableAction, { type: 'ALTER_COLUMN_TYPE' }>
+    ): ColumnDefinition {
+        const column = this.findColumn(schema, action.columnName);
+
+        for (const { table: child, key } of this.referencingKeys(table)) {
+            if (child !== table && key.referencedColumns.includes(column.name)) {
+                throw new Error(
+                    `Cannot change the type of column '${column.name}': foreign key '${key.name}' ` +
+                    `of table '${child.getName()}' references it`
+                );
+            }
+        }
+
+        column.type = action.dataType;
+        if (action.dataType === 'DECIMAL') {
+            column.precision = action.precision;
+            column.scale = action.scale;
+        } else {
+            delete column.precision;
+            delete column.scale;
+        }
+
+        this.validateAutoIncrement(column);
+        this.validateForeignKeys(schema);
+        return column;
+    }
+
+    /**
+     * Find a column of a schema by name (case-insensitive).
+     */
+    private findColumn(schema: TableSchema, name: string): ColumnDefinition {
+        const column = schema.columns.find(c => c.name.toLowerCase() === name.toLowerCase());
+        if (!column) {
+            throw new Error(`Column '${name}' does not exist in table '${schema.tableName}'`);
+        }
+        return column;
+    }
+
+    /**
+     * Get the column references of a stored CHECK expression.
+     */
+    private checkColumnReferences(check: string | Expression): ColumnExpression[] {
+        return collectExpressions(
+            typeof check === 'string' ? Parser.parseExpression(check) : check,
+            (node): node is ColumnExpression => node.type === 'COLUMN'
+        );
+    }
+
+    /**
+     * Get the column name of a reference, without its table qualifier.
+     */
+    private bareName(ref: ColumnExpression): string {
+        return ref.column.slice(ref.column.indexOf('.') + 1);
+    }
+
+    /**
+     * Get the column renamed by a (resolved) ALTER TABLE action, as a map
+     * from old to new name.
+     */
+    private columnRenames(action: AlterTableAction): Map<string, string> {
+        return action.type === 'RENAME_COLUMN'
+            ? new Map([[action.columnName, action.newName]])
+            : new Map();
+    }
+
+    // ==========================================================================
+    // SEQUENCES
+    // ==========================================================================
+
+    /**
+     * Create a sequence.
+     */
+    createSequence(definition: SequenceDefinition): Sequence {
+        const sequenceName = definition.name.toLowerCase();
+        if (this.sequences.has(sequenceName)) {
+            throw new Error(`Sequence '${definition.name}' already exists`);
+        }
+
+        const sequence = new Sequence({ ...definition });
+        this.sequences.set(sequenceName, sequence);
+
+        this.recordSchemaChange(
+            { type: 'CREATE_SEQUENCE', sequence: { ...sequence.getDefinition() } },
+            () => {
+                this.sequences.delete(sequenceName);
+            }
+        );
+
+        return sequence;
     }
 
+    /**
+     * Get a sequence by name.
+     */
+    getSequence(name: string): Sequence | undefined {
+        return this.sequences.get(name.toLowerCase());
+    }
+
+    /**
+     * Drop a sequence.
+     */
+    dropSequence(name: string): boolean {
+        const sequenceName = name.toLowerCase();
+        const sequence = this.sequences.get(sequenceName);
+        if (!sequence) {
+            return false;
+        }
+
+        this.sequences.delete(sequenceName);
+        this.recordSchemaChange(
+            { type: 'DROP_SEQUENCE', sequenceName },
+            () => {
+                this.sequences.set(sequenceName, sequence);
+            }
+        );
+
+        return true;
+    }
+
+    /**
+     * Advance a sequence and return its new value (NEXTVAL).
+     * The advance is logged but has nothing to undo; see rollbackTo().
+     */
+    nextValue(name: string): number {
+        const sequence = this.getSequence(name);
+        if (!sequence) {
+            throw new Error(`Sequence '${name}' does not exist`);
+        }
+
+        const value = sequence.next();
+        this.recordSchemaChange(
+            { type: 'SEQUENCE_VALUE', sequenceName: sequence.getName().toLowerCase(), value },
+            () => {}
+        );
+
+        return value;
+    }
+
+    /**
+     * Get the context expressions are evaluated in, which gives NEXTVAL
+     * access to this database's sequences and holds its user-defined
+     * functions.
+     */
+    getEvaluationContext(): EvaluationContext {
+        return this.evaluationContext;
+    }
+
+    // ==========================================================================
+    // USER-DEFINED FUNCTIONS
+    // ==========================================================================
+
+    /**
+     * Register a scalar function callable from SQL, e.g.
+     * createFunction('fiscal_quarter', { argTypes: ['DATE'], returnType: 'INT', call: ... }).
+     */
+    createFunction(name: string, definition: ScalarFunctionDefinition): void {
+        const functionName = this.newFunctionName(name);
+        definition.argTypes.forEach(type => this.validateFunctionType(name, type));
+        this.validateFunctionType(name, definition.returnType);
+
+        this.functions.scalars.set(functionName, userScalarFunction(functionName, definition));
+    }
+
+    /**
+     * Register an aggregate function callable from SQL, e.g.
+     * createAggregate('product', { argType: 'REAL', returnType: 'REAL',
+     * init: () => 1, step: (p, x) => p * x, final: p => p }).
+     */
+    createAggregate<State>(name: string, definition: AggregateFunctionDefinition<State>): void {
+        const functionName = this.newFunctionName(name);
+        this.validateFunctionType(name, definition.argType);
+        this.validateFunctionType(name, definition.returnType);
+
+        this.functions.aggregates.set(functionName, definition as AggregateFunctionDefinition);
+    }
+
+    /**
+     * Remove a user-defined scalar or aggregate function.
+     * @returns false if no such function was registered
+     */
+    dropFunction(name: string): boolean {
+        const functionName = name.toUpperCase();
+        return this.functions.scalars.delete(functionName) || this.functions.aggregates.delete(functionName);
+    }
+
+    /**
+     * Get the user-defined functions, for parsing statements that call them.
+     */
+    getFunctions(): FunctionCatalog {
+        return this.functions;
+    }
+
+    /**
+     * Check that a name can be given to a new function: it must be a plain
+     * identifier (not a keyword) that no built-in or registered function has.
+     * @returns The name in upper case, as function calls are parsed
+     */
+    private newFunctionName(name: string): string {
+        let tokens: Token[] = [];
+        try {
+            tokens = new Tokenizer(name).tokenize();
+        } catch {
+            // Reported below like any other invalid name
+        }
+        if (tokens.length !== 2 || tokens[0].type !== 'IDENTIFIER') {
+            throw new Error(`Invalid function name: '${name}'`);
+        }
+
+        const functionName = name.toUpperCase();
+        if (
+            functionName in BUILTIN_FUNCTIONS ||
+            AGGREGATE_FUNCTIONS.has(functionName) ||
+            this.functions.scalars.has(functionName) ||
+            this.functions.aggregates.has(functionName)
+        ) {
+            throw new Error(`Function '${name}' already exists`);
+        }
+        return functionName;
+    }
+
+    /**
+     * Check a declared argument or return type of a user-defined function.
+     */
+    private validateFunctionType(name: string, type: string): void {
+        if (!FUNCTION_TYPES.has(type)) {
+            throw new Error(`Function '${name}' uses unknown data type '${type}'`);
+        }
+    }
+
+    // ==========================================================================
+    // FOREIGN KEYS
+    // ==========================================================================
+
+    /**
+     * Validate the foreign keys of a new table, resolving omitted referenced
+     * columns to the referenced table's primary key.
+     *
+     * The referenced table must exist (or be the new table itself), the
+     * referenced columns must be its PRIMARY KEY or a UNIQUE key (in any
+     * order), and the column types must match. SET NULL needs nullable
+     * columns.
+     */
+    private validateForeignKeys(schema: TableSchema): void {
+        const names = new Set<string>();
+
+        for (const key of schema.foreignKeys ?? []) {
+            if (names.has(key.name.toLowerCase())) {
+                throw new Error(`Duplicate constraint name: '${key.name}'`);
+            }
+            names.add(key.name.toLowerCase());
+
+            const selfReference = key.referencedTable.toLowerCase() === schema.tableName.toLowerCase();
+            const referenced = selfReference
+                ? schema
+                : this.getTable(key.referencedTable)?.getSchema();
+            if (!referenced) {
+                throw new Error(
+                    `Foreign key '${key.name}' references unknown table '${key.referencedTable}'`
+                );
+            }
+            key.referencedTable = referenced.tableName;
+
+            if (key.referencedColumns.length === 0) {
+                if (!referenced.primaryKey) {
+                    throw new Error(
+                        `Foreign key '${key.name}': table '${referenced.tableName}' has no PRIMARY KEY`
+                    );
+                }
+                key.referencedColumns = [...referenced.primaryKey];
+            }
+
+            if (key.columns.length !== key.referencedColumns.length) {
+                throw new Error(
+                    `Foreign key '${key.name}' has ${key.columns.length} column(s) ` +
+                    `but references ${key.referencedColumns.length}`
+                );
+            }
+
+            key.columns.forEach((columnName, i) => {
+                const column = schema.columns.find(c => c.name.toLowerCase() === columnName.toLowerCase());
+                if (!column) {
+                    throw new Error(`Foreign key '${key.name}': unknown column '${columnName}'`);
+                }
+                key.columns[i] = column.name;
+
+                const refName = key.referencedColumns[i];
+                const refColumn = referenced.columns.find(c => c.name.toLowerCase() === refName.toLowerCase());
+                if (!refColumn) {
+                    throw new Error(
+                        `Foreign key '${key.name}': unknown column '${refName}' in table '${referenced.tableName}'`
+                    );
+                }
+                key.referencedColumns[i] = refColumn.name;
+
+                if (column.type !== refColumn.type) {
+                    throw new Error(
+                        `Foreign key '${key.name}': column '${column.name}' is ${column.type} ` +
+                        `but '${referenced.tableName}.${refColumn.name}' is ${refColumn.type}`
+                    );
+                }
+
+                const notNull = column.constraints.includes('PRIMARY_KEY') || column.constraints.includes('NOT_NULL');
+                if (notNull && (key.onDelete === 'SET_NULL' || key.onUpdate === 'SET_NULL')) {
+                    throw new Error(
+                        `Foreign key '${key.name}': SET NULL is not possible on NOT NULL column '${column.name}'`
+                    );
+                }
+            });
+
+            if (!this.isKey(referenced, key.referencedColumns)) {
+                throw new Error(
+                    `Foreign key '${key.name}': (${key.referencedColumns.join(', ')}) of table ` +
+                    `'${referenced.tableName}' must be its PRIMARY KEY or a UNIQUE key`
+                );
+            }
+        }
+    }
+
+    /**
+     * Check whether columns (in any order) form a table's PRIMARY KEY, a
+     * UNIQUE column or a multi-column UNIQUE key.
+     */
+    private isKey(schema: TableSchema, columns: string[]): boolean {
+        const keys = [
+            ...(schema.primaryKey ? [schema.primaryKey] : []),
+            ...(schema.uniqueKeys ?? []),
+            ...schema.columns.filter(c => c.constraints.includes('UNIQUE')).map(c => [c.name]),
+        ];
+        return keys.some(key =>
+            key.length === columns.length && key.every(column => columns.includes(column))
+        );
+    }
+
+    /**
+     * Find the foreign keys (of any table, including its own) that
+     * reference a table.
+     */
+    private referencingKeys(table: Table): Array<{ table: Table; key: ForeignKeyDefinition }> {
+        const name = table.getName().toLowerCase();
+        const references: Array<{ table: Table; key: ForeignKeyDefinition }> = [];
+
+        for (const candidate of this.tables.values()) {
+            for (const key of candidate.getSchema().foreignKeys ?? []) {
+                if (key.referencedTable.toLowerCase() === name) {
+                    references.push({ table: candidate, key });
+                }
+            }
+        }
+
+        return references;
+    }
+
+    /**
+     * Check a row change against every foreign key involving its table:
+     * - inserted or re-keyed referencing rows must point at an existing row
+     * - deleting or re-keying a referenced row applies the key's action to
+     *   the rows referencing it
+     */
+    private enforceForeignKeys(table: Table, change: TableChange): void {
+        switch (change.type) {
+            case 'INSERT':
+                this.checkReferences(table, change.row.data);
+                break;
+            case 'UPDATE':
+                this.checkReferences(table, change.after, change.before);
+                this.applyReferentialActions(table, change.before, change.after);
+                break;
+            case 'DELETE':
+                this.applyReferentialActions(table, change.row.data, null);
+                break;
+        }
+    }
+
+    /**
+     * Ensure a row's foreign key values exist in the referenced tables.
+     * Keys containing NULL are not checked, nor (on update) unchanged keys.
+     */
+    private checkReferences(table: Table, row: Row, before?: Row): void {
+        for (const key of table.getSchema().foreignKeys ?? []) {
+            const values = key.columns.map(column => row[column]);
+            if (values.some(value => value === null)) {
+                continue;
+            }
+            if (before && this.sameKey(values, key.columns.map(column => before[column]))) {
+                continue;
+            }
+
+            const referenced = this.getTable(key.referencedTable);
+            if (!referenced || this.findRows(referenced, key.referencedColumns, values).length === 0) {
+                throw new Error(
+                    `FOREIGN KEY constraint '${key.name}' violated: key ` +
+                    `${this.formatKey(key.columns, values)} is not present in table '${key.referencedTable}'`
+                );
+            }
+        }
+    }
+
+    /**
+     * Apply ON DELETE (after is null) or ON UPDATE actions to the rows
+     * referencing a changed row.
+     */
+    private applyReferentialActions(table: Table, before: Row, after: Row | null): void {
+        for (const { table: child, key } of this.referencingKeys(table)) {
+            const oldValues = key.referencedColumns.map(column => before[column]);
+            if (oldValues.some(value => value === null)) {
+                continue;
+            }
+            const newValues = after ? key.referencedColumns.map(column => after[column]) : null;
+            if (newValues && this.sameKey(oldValues, newValues)) {
+                continue;
+            }
+
+            if (this.findRows(child, key.columns, oldValues).length === 0) {
+                continue;
+            }
+
+            const action = after ? key.onUpdate : key.onDelete;
+            const references = (row: Row): boolean => this.sameKey(key.columns.map(c => row[c]), oldValues);
+
+            if (action === 'RESTRICT') {
+                throw new Error(
+                    `FOREIGN KEY constraint '${key.name}' violated: key ` +
+                    `${this.formatKey(key.referencedColumns, oldValues)} is still referenced from table '${child.getName()}'`
+                );
+            }
+
+            if (action === 'CASCADE' && !newValues) {
+                child.delete(references);
+                continue;
+            }
+
+            const updates: Record<string, Value> = {};
+            key.columns.forEach((column, i) => {
+                updates[column] = action === 'CASCADE' && newValues ? newValues[i] : null;
+            });
+            child.update(updates, references);
+        }
+    }
+
+    /**
+     * Find the rows whose columns equal the given values, using a composite
+     * key index on the columns, or else an index on the first column.
+     */
+    private findRows(table: Table, columns: string[], values: Value[]): InternalRow[] {
+        const composite = table.findCompositeIndex(columns);
+        const index = table.getIndex(columns[0]);
+
+        let candidates: InternalRow[];
+        if (composite) {
+            const key = composite.getColumnNames().map(column => values[columns.indexOf(column)]);
+            candidates = Array.from(composite.lookup(key), rowId => table.getRowById(rowId)!);
+        } else if (index) {
+            candidates = Array.from(index.lookup(values[0]), rowId => table.getRowById(rowId)!);
+        } else {
+            candidates = table.getAllRows();
+        }
+
+        return candidates.filter(row =>
+            this.sameKey(columns.map(column => row.data[column]), values)
+        );
+    }
+
+    /**
+     * Check whether two keys are equal (NULL never equals anything).
+     */
+    private sameKey(a: Value[], b: Value[]): boolean {
+        return a.every((value, i) =>
+            value !== null && b[i] !== null && compareKeys(value, b[i]) === 0
+        );
+    }
+
+    /**
+     * Format a key for error messages, e.g. "(user_id)=(42)".
+     */
+    private formatKey(columns: string[], values: Value[]): string {
+        return `(${columns.join(', ')})=(${values.map(String).join(', ')})`;
+    }
+
+    // ==========================================================================
+    // TRANSACTIONS
+    // ==========================================================================
+
+    /**
+     * Check if a transaction is in progress.
+     */
+    inTransaction(): boolean {
+        return this.undoLog !== null;
+    }
+
+    /**
+     * Start a transaction.
+     */
+    beginTransaction(): void {
+        if (this.undoLog) {
+            throw new Error('A transaction is already in progress');
+        }
+        this.undoLog = [];
+    }
+
+    /**
+     * Commit the current transaction, making its changes permanent.
+     */
+    commit(): void {
+        if (!this.undoLog) {
+            throw new Error('No transaction in progress');
+        }
+
+        const records = this.undoLog.map(entry =>
+            entry.kind === 'ROW' ? entry.change : entry.record
+        );
+        this.undoLog = null;
+
+        this.logRecords(records);
+    }
+
+    /**
+     * Roll back the current transaction, reverting all of its changes.
+     * Sequence advances are kept and logged.
+     */
+    rollback(): void {
+        if (!this.undoLog) {
+            throw new Error('No transaction in progress');
+        }
+        this.rollbackTo(0);
+
+        const kept = this.undoLog.map(entry =>
+            entry.kind === 'ROW' ? entry.change : entry.record
+        );
+        this.undoLog = null;
+
+        this.logRecords(kept);
+    }
+
+    /**
+     * Run a function atomically: if it throws, every change it made is
+     * reverted and the error is rethrown.
+     *
+     * Outside a transaction this begins and commits one. Inside a transaction
+     * it acts as a savepoint, undoing only its own changes on failure.
+     */
+    transaction<T>(fn: () => T): T {
+        if (this.undoLog) {
+            const mark = this.undoLog.length;
+            try {
+                return fn();
+            } catch (error) {
+                this.rollbackTo(mark);
+                throw error;
+            }
+        }
+
+        this.beginTransaction();
+        try {
+            const result = fn();
+            this.commit();
+            return result;
+        } catch (error) {
+            this.rollback();
+            throw error;
+        }
+    }
+
+    /**
+     * Revert undo log entries back to the given position.
+     * Advances of sequences that still exist afterwards are put back on the
+     * log, so they are committed (or logged on rollback) with the rest.
+     */
+    private rollbackTo(mark: number): void {
+        if (!this.undoLog) {
+            return;
+        }
+
+        const entries = this.undoLog.splice(mark);
+
+        // Row changes on different tables are independent, so each table
+        // reverts its own changes in one pass
+        const changesByTable = new Map<Table, TableChange[]>();
+        for (const entry of entries) {
+            if (entry.kind === 'ROW') {
+                const changes = changesByTable.get(entry.table) ?? [];
+                changes.push(entry.change);
+                changesByTable.set(entry.table, changes);
+            }
+        }
+        for (const [table, changes] of changesByTable) {
+            table.revertChanges(changes);
+        }
+
+        for (let i = entries.length - 1; i >= 0; i--) {
+            const entry = entries[i];
+            if (entry.kind === 'SCHEMA') {
+                entry.undo();
+            }
+        }
+
+        for (const entry of entries) {
+            if (
+                entry.kind === 'SCHEMA' &&
+                entry.record.type === 'SEQUENCE_VALUE' &&
+                this.sequences.has(entry.record.sequenceName)
+            ) {
+                this.undoLog.push(entry);
+            }
+        }
+    }
+
+    /**
+     * Route a table's row changes into the undo log and enforce foreign
+     * keys on them. A change made outside a transaction gets one of its
+     * own, so a violation reverts it and whatever it cascaded to.
+     * Also gives the table's DEFAULT expressions access to sequences.
+     */
+    private attachTable(table: Table): void {
+        table.setEvaluationContext(this.evaluationContext);
+        table.setChangeListener(change => {
+            this.transaction(() => {
+                this.undoLog!.push({ kind: 'ROW', table, change });
+                this.enforceForeignKeys(table, change);
+            });
+        });
+    }
+
+    /**
+     * Record a schema change in the undo log, or straight to the
+     * write-ahead log when no transaction is open.
+     */
+    private recordSchemaChange(record: WalRecord, undo: () => void): void {
+        if (this.undoLog) {
+            this.undoLog.push({ kind: 'SCHEMA', record, undo });
+        } else {
+            this.logRecords([record]);
+        }
+    }
+
+    /**
+     * Ensure no transaction is open before an operation that would bypass it.
+     */
+    private assertNoTransaction(operation: string): void {
+        if (this.undoLog) {
+            throw new Error(`Cannot ${operation} while a transaction is in progress`);
+        }
+    }
+
+    // ==========================================================================
+    // PERSISTENCE
+    // ==========================================================================
+
     /**
      * Set the persistence path for the database.
+     * Unless disabled, committed changes are then logged to "<path>.wal".
+     * Call load() first if the files already exist.
      */
-    setPersistPath(filePath: string): void {
+    setPersistPath(filePath: string, options: PersistenceOptions = {}): void {
         this.persistPath = filePath;
+        this.wal = options.writeAheadLog === false
+            ? undefined
+            : new WriteAheadLog(`${filePath}.wal`);
+        this.checkpointInterval = options.checkpointInterval ?? DEFAULT_CHECKPOINT_INTERVAL;
+        this.commitsSinceCheckpoint = 0;
+    }
+
+    /**
+     * Write a snapshot to the persistence path and empty the write-ahead log.
+     */
+    checkpoint(): void {
+        if (!this.persistPath) {
+            throw new Error('No persistence path specified');
+        }
+        this.save(this.persistPath);
+    }
+
+    /**
+     * Append committed records to the write-ahead log, checkpointing when
+     * enough commits have accumulated.
+     */
+    private logRecords(records: WalRecord[]): void {
+        if (!this.wal || records.length === 0) {
+            return;
+        }
+
+        this.walSequence++;
+        this.wal.append({ sequence: this.walSequence, records });
+        this.commitsSinceCheckpoint++;
+
+        if (this.checkpointInterval > 0 && this.commitsSinceCheckpoint >= this.checkpointInterval) {
+            this.checkpoint();
+        }
+    }
+
+    /**
+     * Apply a write-ahead log record during recovery.
+     */
+    private replayRecord(record: WalRecord): void {
+        switch (record.type) {
+            case 'CREATE_TABLE': {
+                const table = new Table(record.schema);
+                this.attachTable(table);
+                this.tables.set(record.schema.tableName.toLowerCase(), table);
+                break;
+            }
+
+            case 'DROP_TABLE':
+                this.tables.delete(record.tableName.toLowerCase());
+                break;
+
+            case 'ALTER_TABLE': {
+                const table = this.tables.get(record.tableName.toLowerCase());
+                if (!table) {
+                    throw new Error(
+                        `Write-ahead log references unknown table '${record.tableName}'`
+                    );
+                }
+                this.replaceTable(table, Table.deserialize(record.table), this.columnRenames(record.action));
+                break;
+            }
+
+            case 'CREATE_SEQUENCE':
+                this.sequences.set(record.sequence.name.toLowerCase(), new Sequence(record.sequence));
+                break;
+
+            case 'DROP_SEQUENCE':
+                this.sequences.delete(record.sequenceName);
+                break;
+
+            case 'SEQUENCE_VALUE': {
+                const sequence = this.sequences.get(record.sequenceName);
+                if (!sequence) {
+                    throw new Error(
+                        `Write-ahead log references unknown sequence '${record.sequenceName}'`
+                    );
+                }
+                sequence.setLastValue(record.value);
+                break;
+            }
+
+            default: {
+                const table = this.tables.get(record.tableName.toLowerCase());
+                if (!table) {
+                    throw new Error(
+                        `Write-ahead log references unknown table '${record.tableName}'`
+                    );
+                }
+
+                if (record.type === 'TRUNCATE_TABLE') {
+                    this.replaceTable(table, table.truncated(), new Map());
+                } else if (record.type === 'CREATE_INDEX') {
+                    table.createIndex(record.index);
+                } else if (record.type === 'DROP_INDEX') {
+                    table.dropIndex(record.indexName);
+                } else {
+                    table.replayChange(record);
+                }
+            }
+        }
     }
 
     /**
      * Save the database to disk.
+     * The snapshot is written to a temporary file and renamed into place, so
+     * a crash mid-save never leaves a partially written snapshot. Saving to
+     * the persistence path is a checkpoint and empties the write-ahead log.
      */
     save(filePath?: string): void {
         const savePath = filePath || this.persistPath;
@@ -129,27 +1415,48 @@ export class Database {
             throw new Error('No persistence path specified');
         }
 
+        this.assertNoTransaction('save');
+
         const serialized: SerializedDatabase = {
             version: DATABASE_VERSION,
             tables: {},
             createdAt: new Date().toISOString(),
             updatedAt: new Date().toISOString(),
+            walSequence: this.walSequence,
         };
 
         for (const [name, table] of this.tables) {
             serialized.tables[name] = table.serialize();
         }
+        if (this.sequences.size > 0) {
+            serialized.sequences = Array.from(this.sequences.values()).map(s => s.serialize());
+        }
 
         const dir = path.dirname(savePath);
         if (!fs.existsSync(dir)) {
             fs.mkdirSync(dir, { recursive: true });
         }
 
-        fs.writeFileSync(savePath, JSON.stringify(serialized, null, 2));
+        const tempPath = `${savePath}.tmp`;
+        const fd = fs.openSync(tempPath, 'w');
+        try {
+            fs.writeSync(fd, JSON.stringify(serialized, null, 2));
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+        fs.renameSync(tempPath, savePath);
+
+        if (this.wal && savePath === this.persistPath) {
+            this.wal.truncate();
+            this.commitsSinceCheckpoint = 0;
+        }
     }
 
     /**
      * Load the database from disk.
+     * Reads the snapshot (if any), then replays write-ahead log entries
+     * newer than the snapshot.
      */
     load(filePath?: string): void {
         const loadPath = filePath || this.persistPath;
@@ -157,23 +1464,57 @@ export class Database {
             throw new Error('No persistence path specified');
         }
 
-        if (!fs.existsSync(loadPath)) {
+        const wal = this.wal && loadPath === this.persistPath
+            ? this.wal
+            : new WriteAheadLog(`${loadPath}.wal`);
+
+        if (!fs.existsSync(loadPath) && !wal.exists()) {
             throw new Error(`Database file not found: ${loadPath}`);
         }
 
-        const content = fs.readFileSync(loadPath, 'utf-8');
-        const serialized: SerializedDatabase = JSON.parse(content);
+        this.assertNoTransaction('load');
 
-        // Version check
-        if (serialized.version !== DATABASE_VERSION) {
-            console.warn(
-                `Warning: Database version mismatch. File: ${serialized.version}, Current: ${DATABASE_VERSION}`
-            );
+        this.tables.clear();
+        this.sequences.clear();
+        this.walSequence = 0;
+
+        if (fs.existsSync(loadPath)) {
+            const content = fs.readFileSync(loadPath, 'utf-8');
+            const serialized: SerializedDatabase = JSON.parse(content);
+
+            // Version check
+            if (serialized.version !== DATABASE_VERSION) {
+                console.warn(
+                    `Warning: Database version mismatch. File: ${serialized.version}, Current: ${DATABASE_VERSION}`
+                );
+            }
+
+            for (const [name, tableData] of Object.entries(serialized.tables)) {
+                const table = Table.deserialize(tableData);
+                this.attachTable(table);
+                this.tables.set(name, table);
+            }
+            for (const sequenceData of serialized.sequences ?? []) {
+                const sequence = Sequence.deserialize(sequenceData);
+                this.sequences.set(sequence.getName().toLowerCase(), sequence);
+            }
+            this.walSequence = serialized.walSequence ?? 0;
         }
 
-        this.tables.clear();
-        for (const [name, tableData] of Object.entries(serialized.tables)) {
-            this.tables.set(name, Table.deserialize(tableData));
+        // Replay committed changes made after the snapshot
+        for (const entry of wal.read()) {
+            if (entry.sequence <= this.walSequence) {
+                continue;
+            }
+            for (const record of entry.records) {
+                this.replayRecord(record);
+            }
+            this.walSequence = entry.sequence;
+        }
+
+        // State loaded from elsewhere is not covered by our own log yet
+        if (this.wal && wal !== this.wal) {
+            this.checkpoint();
         }
     }
 
@@ -182,7 +1523,10 @@ export class Database {
      */
     persistenceFileExists(filePath?: string): boolean {
         const checkPath = filePath || this.persistPath;
-        return checkPath ? fs.existsSync(checkPath) : false;
+        if (!checkPath) {
+            return false;
+        }
+        return fs.existsSync(checkPath) || fs.existsSync(`${checkPath}.wal`);
     }
 
     /**
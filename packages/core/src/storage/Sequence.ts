@@ -0,0 +1,89 @@
+/**
+ * LedgerLite - Sequences
+ *
+ * A named counter created with CREATE SEQUENCE and advanced by NEXTVAL().
+ *
+ * Design decisions:
+ * - Values are plain integers; the first NEXTVAL returns the start value,
+ *   each later one adds the increment (which may be negative)
+ * - Advances are never rolled back (as in PostgreSQL), so a transaction
+ *   that fails leaves a gap instead of blocking other callers; the
+ *   Database still logs each advance so it survives a reload
+ */
+
+import { SequenceDefinition, SerializedSequence } from '../types';
+
+export class Sequence {
+    private definition: SequenceDefinition;
+    private lastValue: number | null;
+
+    constructor(definition: SequenceDefinition, lastValue: number | null = null) {
+        if (!Number.isSafeInteger(definition.start) || !Number.isSafeInteger(definition.increment)) {
+            throw new Error(`Sequence '${definition.name}' START and INCREMENT must be integers`);
+        }
+        if (definition.increment === 0) {
+            throw new Error(`Sequence '${definition.name}' INCREMENT must not be zero`);
+        }
+        this.definition = definition;
+        this.lastValue = lastValue;
+    }
+
+    /**
+     * Get the sequence name.
+     */
+    getName(): string {
+        return this.definition.name;
+    }
+
+    /**
+     * Get the sequence definition.
+     */
+    getDefinition(): SequenceDefinition {
+        return this.definition;
+    }
+
+    /**
+     * Get the last value returned, or null if NEXTVAL was never called.
+     */
+    getLastValue(): number | null {
+        return this.lastValue;
+    }
+
+    /**
+     * Set the last value returned (used for recovery).
+     */
+    setLastValue(value: number | null): void {
+        this.lastValue = value;
+    }
+
+    /**
+     * Advance the sequence and return its new value.
+     */
+    next(): number {
+        const value = this.lastValue === null
+            ? this.definition.start
+            : this.lastValue + this.definition.increment;
+
+        if (!Number.isSafeInteger(value)) {
+            throw new Error(`Sequence '${this.definition.name}' reached its limit`);
+        }
+
+        this.lastValue = value;
+        return value;
+    }
+
+    /**
+     * Serialize the sequence for persistence.
+     */
+    serialize(): SerializedSequence {
+        return { ...this.definition, lastValue: this.lastValue };
+    }
+
+    /**
+     * Restore a sequence from serialized data.
+     */
+    static deserialize(data: SerializedSequence): Sequence {
+        const { lastValue, ...definition } = data;
+        return new Sequence(definition, lastValue);
+    }
+}
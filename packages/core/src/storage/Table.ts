@@ -8,7 +8,18 @@
  * - Rows are stored in an array with internal row IDs for stable references
  * - Deleted rows leave gaps (tombstones) - simple but wastes memory
  * - Indexes are maintained automatically on all write operations
+ * - Multi-column PRIMARY KEY and UNIQUE constraints get composite (hash)
+ *   indexes; a single-column key keeps its ordinary column index
  * - Constraint validation happens before any modifications
+ * - DEFAULT and CHECK expressions are parsed once, when the table is
+ *   created or loaded; DEFAULT is evaluated per inserted row (so NOW()
+ *   gives the insert time), and CHECK passes unless it is FALSE
+ * - AUTOINCREMENT columns keep a counter of the largest value seen; an
+ *   insert that omits the column (or gives NULL) gets the next one.
+ *   Counters never move back on rollback, so generated values may have
+ *   gaps
+ * - Every successful write is reported to an optional change listener,
+ *   which the Database uses for transaction rollback
  */
 
 import {
@@ -20,35 +31,273 @@ import {
     DataType,
     SerializedTable,
     TableIndex,
+    TableChange,
+    ColumnIndex,
+    IndexDefinition,
+    Expression,
+    ColumnExpression,
+    FunctionExpression,
 } from '../types';
 import { HashIndex } from '../index/HashIndex';
+import { BTreeIndex } from '../index/BTreeIndex';
+import { CompositeIndex } from '../index/CompositeIndex';
+import {
+    typeName,
+    evaluateExpression,
+    collectExpressions,
+    containsAggregate,
+    resolveColumnValue,
+    EvaluationContext,
+} from '../engine/ExpressionEvaluator';
+import { Parser } from '../parser/Parser';
+import { Decimal } from '../values/Decimal';
+import { SqlDate, SqlTimestamp } from '../values/DateTime';
+
+/**
+ * New (coerced) column values for one row of an UPDATE.
+ */
+interface PendingUpdate {
+    row: InternalRow;
+    values: Row;
+}
+
+/**
+ * A collision on a unique key: the key's columns, the new row's values
+ * for them, and the existing row that already has those values.
+ */
+interface UniqueConflict {
+    columns: string[];
+    values: Value[];
+    rowId: number;
+}
 
 export class Table {
     private schema: TableSchema;
     private rows: Map<number, InternalRow>;
     private nextRowId: number;
-    private indexes: Map<string, HashIndex>;
+    private indexes: Map<string, ColumnIndex>;
+    private compositeIndexes: CompositeIndex[]; // multi-column PRIMARY KEY / UNIQUE
+    private indexDefinitions: Map<string, IndexDefinition>; // lowercase index name -> definition
+    private defaults: Map<string, Expression>; // column name -> parsed DEFAULT
+    private checks: Map<string, Expression>;   // column name -> parsed CHECK
+    private autoIncrement: Map<string, number>; // column name -> largest value used
+    private evaluationContext: EvaluationContext;
+    private changeListener?: (change: TableChange) => void;
 
     constructor(schema: TableSchema) {
         this.schema = schema;
         this.rows = new Map();
         this.nextRowId = 1;
         this.indexes = new Map();
+        this.compositeIndexes = [];
+        this.indexDefinitions = new Map();
+        this.defaults = new Map();
+        this.checks = new Map();
+        this.autoIncrement = new Map();
+        this.evaluationContext = {};
+
+        for (const column of schema.columns) {
+            if (column.autoIncrement) {
+                this.autoIncrement.set(column.name, 0);
+            }
+        }
 
         // Create indexes for PRIMARY KEY and UNIQUE columns
         this.initializeIndexes();
+        this.initializeColumnExpressions();
     }
 
     /**
-     * Initialize hash indexes for constrained columns.
+     * Initialize indexes for constrained columns.
+     * A single-column primary key gets an ordered B-tree index (range scans,
+     * ORDER BY, MIN/MAX); UNIQUE columns get hash indexes for fast equality
+     * checks. Multi-column keys get composite indexes.
      */
     private initializeIndexes(): void {
+        // Schemas saved before composite keys hold a single column name
+        if (!Array.isArray(this.schema.primaryKey)) {
+            const pkColumns = this.schema.columns
+                .filter(c => c.constraints.includes('PRIMARY_KEY'))
+                .map(c => c.name);
+            this.schema.primaryKey = pkColumns.length > 0 ? pkColumns : undefined;
+        }
+
+        const primaryKey = this.schema.primaryKey ?? [];
         for (const column of this.schema.columns) {
-            if (column.constraints.includes('PRIMARY_KEY') || column.constraints.includes('UNIQUE')) {
-                const index = new HashIndex(column.name, true);
-                this.indexes.set(column.name, index);
+            if (primaryKey.length === 1 && primaryKey[0] === column.name) {
+                this.indexes.set(column.name, new BTreeIndex(column.name, true));
+            } else if (column.constraints.includes('UNIQUE')) {
+                this.indexes.set(column.name, new HashIndex(column.name, true));
+            }
+        }
+
+        if (primaryKey.length > 1) {
+            this.compositeIndexes.push(new CompositeIndex(primaryKey, true));
+        }
+        for (const columns of this.schema.uniqueKeys ?? []) {
+            this.compositeIndexes.push(new CompositeIndex(columns, true));
+        }
+    }
+
+    /**
+     * Parse and validate the DEFAULT and CHECK expressions of every column.
+     * A DEFAULT may not reference columns and must produce a value of the
+     * column's type; a CHECK may reference any column of the table.
+     * Neither may use aggregate functions. A DEFAULT calling NEXTVAL is not
+     * evaluated up front, since that would advance the sequence.
+     */
+    private initializeColumnExpressions(): void {
+        const template: Row = {};
+        for (const column of this.schema.columns) {
+            template[column.name] = null;
+        }
+
+        for (const column of this.schema.columns) {
+            if (column.default !== undefined) {
+                const expr = Parser.parseExpression(column.default);
+                if (containsAggregate(expr) || this.columnReferences(expr).length > 0) {
+                    throw new Error(
+                        `DEFAULT for column '${column.name}' must not reference columns or aggregate functions`
+                    );
+                }
+                this.defaults.set(column.name, expr);
+                if (!this.callsNextValue(expr)) {
+                    this.defaultValue(column);
+                }
+            }
+
+            if (column.check !== undefined) {
+                const expr = Parser.parseExpression(column.check);
+                if (containsAggregate(expr)) {
+                    throw new Error(`CHECK for column '${column.name}' must not use aggregate functions`);
+                }
+                if (this.callsNextValue(expr)) {
+                    throw new Error(`CHECK for column '${column.name}' must not call NEXTVAL`);
+                }
+                for (const ref of this.columnReferences(expr)) {
+                    resolveColumnValue(template, ref.column);
+                }
+                this.checks.set(column.name, expr);
+            }
+        }
+    }
+
+    /**
+     * Get the column references in an expression.
+     */
+    private columnReferences(expr: Expression): ColumnExpression[] {
+        return collectExpressions(
+            expr,
+            (node): node is ColumnExpression => node.type === 'COLUMN'
+        );
+    }
+
+    /**
+     * Check whether an expression calls NEXTVAL.
+     */
+    private callsNextValue(expr: Expression): boolean {
+        return collectExpressions(
+            expr,
+            (node): node is FunctionExpression => node.type === 'FUNCTION' && node.name === 'NEXTVAL'
+        ).length > 0;
+    }
+
+    /**
+     * Evaluate a column's DEFAULT (NULL if it has none), converted to the
+     * column's type.
+     */
+    private defaultValue(column: ColumnDefinition): Value {
+        const expr = this.defaults.get(column.name);
+        if (!expr) {
+            return null;
+        }
+
+        const value = evaluateExpression(expr, {}, this.evaluationContext);
+        if (!this.validateType(value, column.type)) {
+            throw new Error(
+                `Type mismatch: DEFAULT for column '${column.name}' expects ${column.type}, got ${typeName(value)}`
+            );
+        }
+        return this.coerceValue(value, column);
+    }
+
+    /**
+     * Take the next value of an AUTOINCREMENT column's counter.
+     */
+    private nextAutoIncrement(column: ColumnDefinition): number {
+        const value = (this.autoIncrement.get(column.name) ?? 0) + 1;
+        if (!Number.isSafeInteger(value)) {
+            throw new Error(`AUTOINCREMENT column '${column.name}' reached its limit`);
+        }
+        this.autoIncrement.set(column.name, value);
+        return value;
+    }
+
+    /**
+     * Raise AUTOINCREMENT counters past any explicit values in a row, so
+     * generated values never collide with them.
+     */
+    private advanceAutoIncrement(row: Row): void {
+        for (const [colName, last] of this.autoIncrement) {
+            const value = row[colName];
+            if (typeof value === 'number' && value > last) {
+                this.autoIncrement.set(colName, value);
+            }
+        }
+    }
+
+    /**
+     * Set the context used to evaluate DEFAULT expressions (the Database
+     * provides NEXTVAL through it).
+     */
+    setEvaluationContext(context: EvaluationContext): void {
+        this.evaluationContext = context;
+    }
+
+    /**
+     * Register a listener notified after every row insert, update and delete.
+     */
+    setChangeListener(listener?: (change: TableChange) => void): void {
+        this.changeListener = listener;
+    }
+
+    /**
+     * Notify the change listener, if any.
+     */
+    private emitChange(change: TableChange): void {
+        if (this.changeListener) {
+            this.changeListener(change);
+        }
+    }
+
+    /**
+     * Add a row's values to every index.
+     */
+    private addToIndexes(row: InternalRow): void {
+        for (const [colName, index] of this.indexes) {
+            const value = row.data[colName];
+            if (value !== null && value !== undefined) {
+                index.add(value, row._rowId);
+            }
+        }
+        for (const index of this.compositeIndexes) {
+            index.add(index.keyOf(row.data), row._rowId);
+        }
+    }
+
+    /**
+     * Remove a row's values from every index.
+     */
+    private removeFromIndexes(row: InternalRow): void {
+        for (const [colName, index] of this.indexes) {
+            const value = row.data[colName];
+            if (value !== null && value !== undefined) {
+                index.remove(value, row._rowId);
             }
         }
+        for (const index of this.compositeIndexes) {
+            index.remove(index.keyOf(row.data), row._rowId);
+        }
     }
 
     /**
@@ -91,7 +340,7 @@ export class Table {
      */
     private validateType(value: Value, expectedType: DataType): boolean {
         if (value === null) {
-            return true; // NULL is allowed for all types (no NOT NULL constraint in spec)
+            return true; // NULL fits every type; NOT NULL is checked with the other constraints
         }
 
         switch (expectedType) {
@@ -101,11 +350,81 @@ export class Table {
                 return typeof value === 'string';
             case 'BOOL':
                 return typeof value === 'boolean';
+            case 'DECIMAL':
+            case 'REAL':
+                return typeof value === 'number' || value instanceof Decimal;
+            case 'DATE':
+                return value instanceof SqlDate || typeof value === 'string';
+            case 'TIMESTAMP':
+                return value instanceof SqlTimestamp || value instanceof SqlDate || typeof value === 'string';
             default:
                 return false;
         }
     }
 
+    /**
+     * Convert a type-checked value to its stored form:
+     * - INT columns accept integers only (a REAL like 2.0 is an integer)
+     * - REAL columns accept INT, REAL and DECIMAL values, stored as doubles
+     * - DECIMAL values are rounded (half-to-even) to the column's scale and
+     *   must fit its precision; INT and REAL values are converted exactly
+     * - DATE and TIMESTAMP columns also accept their text form ('2026-01-31'),
+     *   and a TIMESTAMP column accepts a DATE (midnight)
+     */
+    private coerceValue(value: Value, column: ColumnDefinition): Value {
+        if (value === null) {
+            return value;
+        }
+        if (typeof value === 'number' && !Number.isFinite(value)) {
+            throw new Error(`Numeric overflow: value ${value} does not fit column '${column.name}'`);
+        }
+        if (column.type === 'REAL' && value instanceof Decimal) {
+            return value.toNumber();
+        }
+        if (column.type === 'DATE' && typeof value === 'string') {
+            return SqlDate.parse(value);
+        }
+        if (column.type === 'TIMESTAMP') {
+            if (typeof value === 'string') return SqlTimestamp.parse(value);
+            if (value instanceof SqlDate) return value.toTimestamp();
+        }
+        if (column.type !== 'DECIMAL') {
+            return value;
+        }
+
+        const precision = column.precision ?? 18;
+        const scale = column.scale ?? 0;
+        const decimal = Decimal.from(value as number | Decimal).rescale(scale);
+        if (decimal.integerDigits() > precision - scale) {
+            throw new Error(
+                `Numeric overflow: value ${value} does not fit column '${column.name}' DECIMAL(${precision},${scale})`
+            );
+        }
+        return decimal;
+    }
+
+    /**
+     * Restore values that were stored as JSON strings (DECIMAL, DATE,
+     * TIMESTAMP) to their runtime representation. Used when loading
+     * snapshots and the WAL.
+     */
+    private reviveRow(data: Row): Row {
+        for (const column of this.schema.columns) {
+            const value = data[column.name];
+            if (typeof value !== 'string' || column.type === 'TEXT') {
+                continue;
+            }
+            if (column.type === 'DECIMAL') {
+                data[column.name] = Decimal.parse(value);
+            } else if (column.type === 'DATE') {
+                data[column.name] = SqlDate.parse(value);
+            } else if (column.type === 'TIMESTAMP') {
+                data[column.name] = SqlTimestamp.parse(value);
+            }
+        }
+        return data;
+    }
+
     /**
      * Validate constraints before insert/update.
      */
@@ -118,27 +437,150 @@ export class Table {
                 throw new Error(`PRIMARY KEY column '${column.name}' cannot be NULL`);
             }
 
-            // Check UNIQUE constraint
-            if (column.constraints.includes('UNIQUE') || column.constraints.includes('PRIMARY_KEY')) {
-                const index = this.indexes.get(column.name);
-                if (index && value !== null && value !== undefined) {
-                    const existingRowIds = index.lookup(value);
-                    for (const existingRowId of existingRowIds) {
-                        if (existingRowId !== excludeRowId) {
-                            throw new Error(
-                                `UNIQUE constraint violation: value '${value}' already exists in column '${column.name}'`
-                            );
-                        }
-                    }
+            // Check NOT NULL
+            if (column.constraints.includes('NOT_NULL') && (value === null || value === undefined)) {
+                throw new Error(`NOT NULL constraint violation: column '${column.name}' cannot be NULL`);
+            }
+
+            // Check CHECK: only FALSE violates it, NULL (unknown) passes
+            const check = this.checks.get(column.name);
+            if (check) {
+                const result = evaluateExpression(check, row);
+                if (result !== null && typeof result !== 'boolean') {
+                    throw new Error(
+                        `CHECK for column '${column.name}' must be a boolean expression, got ${typeName(result)}`
+                    );
+                }
+                if (result === false) {
+                    throw new Error(
+                        `CHECK constraint violation: column '${column.name}' requires ${column.check}`
+                    );
+                }
+            }
+
+        }
+
+        // Check UNIQUE and PRIMARY KEY columns, unique indexes and multi-column keys
+        const conflict = this.findUniqueConflict(row, excludeRowId);
+        if (conflict && conflict.columns.length === 1) {
+            throw new Error(
+                `UNIQUE constraint violation: value '${conflict.values[0]}' already exists in column '${conflict.columns[0]}'`
+            );
+        }
+        if (conflict) {
+            throw new Error(
+                `UNIQUE constraint violation: key (${conflict.columns.join(', ')})=` +
+                `(${conflict.values.map(String).join(', ')}) already exists`
+            );
+        }
+    }
+
+    /**
+     * Find another row with the same values as `row` for a unique key,
+     * looked up through the key's index. Only the key on `keyColumns` is
+     * checked if given; otherwise every UNIQUE or PRIMARY KEY column, unique
+     * index and multi-column key is. NULLs never collide.
+     */
+    private findUniqueConflict(row: Row, excludeRowId?: number, keyColumns?: string[]): UniqueConflict | undefined {
+        const isKey = (columns: string[]): boolean =>
+            !keyColumns ||
+            (keyColumns.length === columns.length && columns.every(column => keyColumns.includes(column)));
+
+        for (const [columnName, index] of this.indexes) {
+            const value = row[columnName];
+            if (!index.getIsUnique() || !isKey([columnName]) || value === null || value === undefined) {
+                continue;
+            }
+            for (const rowId of index.lookup(value)) {
+                if (rowId !== excludeRowId) {
+                    return { columns: [columnName], values: [value], rowId };
+                }
+            }
+        }
+
+        for (const index of this.compositeIndexes) {
+            if (!isKey(index.getColumnNames())) {
+                continue;
+            }
+            const key = index.keyOf(row);
+            for (const rowId of index.lookup(key)) {
+                if (rowId !== excludeRowId) {
+                    return { columns: index.getColumnNames(), values: key, rowId };
                 }
             }
         }
+
+        return undefined;
+    }
+
+    /**
+     * Resolve the columns of a unique key to their declared names, failing
+     * unless they are the PRIMARY KEY, a UNIQUE column or index, or a
+     * multi-column UNIQUE key.
+     */
+    private resolveUniqueKey(columns: string[]): string[] {
+        const resolved = columns.map(name => {
+            const column = this.getColumn(name);
+            if (!column) {
+                throw new Error(`Unknown column: '${name}'`);
+            }
+            return column.name;
+        });
+
+        const isUnique = resolved.length === 1
+            ? this.indexes.get(resolved[0])?.getIsUnique() ?? false
+            : this.compositeIndexes.some(index =>
+                index.getColumnNames().length === resolved.length &&
+                index.getColumnNames().every(column => resolved.includes(column))
+            );
+        if (!isUnique) {
+            throw new Error(
+                `(${resolved.join(', ')}) is not a PRIMARY KEY or UNIQUE key of table '${this.schema.tableName}'`
+            );
+        }
+
+        return resolved;
     }
 
     /**
      * Insert a new row into the table.
      */
     insert(columns: string[], values: Value[]): number {
+        const row = this.buildRow(columns, values);
+        this.validateConstraints(row);
+        return this.addRow(row);
+    }
+
+    /**
+     * Insert a new row unless it collides with an existing row on a unique
+     * key (INSERT ... ON CONFLICT). `conflictColumns` names the key to
+     * watch; without it any unique key counts. A collision on another key
+     * is still an error.
+     * @returns The new row's ID, or the existing row together with the row
+     *   that was proposed (with its DEFAULTs filled in)
+     */
+    insertOrConflict(
+        columns: string[],
+        values: Value[],
+        conflictColumns?: string[]
+    ): { rowId: number } | { existing: InternalRow; proposed: Row } {
+        const row = this.buildRow(columns, values);
+        const keyColumns = conflictColumns && this.resolveUniqueKey(conflictColumns);
+
+        const conflict = this.findUniqueConflict(row, undefined, keyColumns);
+        if (conflict) {
+            return { existing: this.rows.get(conflict.rowId)!, proposed: row };
+        }
+
+        this.validateConstraints(row);
+        return { rowId: this.addRow(row) };
+    }
+
+    /**
+     * Build a row for insertion from the given columns and values, filling
+     * in the columns left out.
+     */
+    private buildRow(columns: string[], values: Value[]): Row {
         if (columns.length !== values.length) {
             throw new Error('Column count does not match value count');
         }
@@ -157,22 +599,31 @@ export class Table {
 
             if (!this.validateType(value, column.type)) {
                 throw new Error(
-                    `Type mismatch: column '${colName}' expects ${column.type}, got ${typeof value}`
+                    `Type mismatch: column '${colName}' expects ${column.type}, got ${typeName(value)}`
                 );
             }
 
-            row[column.name] = value;
+            row[column.name] = this.coerceValue(value, column);
         }
 
-        // Fill in missing columns with null
+        // Fill in missing columns with the next AUTOINCREMENT value, their
+        // DEFAULT, or null
         for (const column of this.schema.columns) {
-            if (!(column.name in row)) {
-                row[column.name] = null;
+            if (column.autoIncrement && (row[column.name] ?? null) === null) {
+                row[column.name] = this.nextAutoIncrement(column);
+            } else if (!(column.name in row)) {
+                row[column.name] = this.defaultValue(column);
             }
         }
 
-        // Validate constraints
-        this.validateConstraints(row);
+        return row;
+    }
+
+    /**
+     * Store a validated row and index it.
+     */
+    private addRow(row: Row): number {
+        this.advanceAutoIncrement(row);
 
         // Create internal row
         const rowId = this.nextRowId++;
@@ -185,12 +636,13 @@ export class Table {
         this.rows.set(rowId, internalRow);
 
         // Update indexes
-        for (const [colName, index] of this.indexes) {
-            const value = row[colName];
-            if (value !== null && value !== undefined) {
-                index.add(value, rowId);
-            }
-        }
+        this.addToIndexes(internalRow);
+
+        this.emitChange({
+            type: 'INSERT',
+            tableName: this.schema.tableName,
+            row: { _rowId: rowId, data: { ...row } },
+        });
 
         return rowId;
     }
@@ -234,16 +686,27 @@ export class Table {
 
     /**
      * Select rows by row IDs (used for index lookups).
+     * Rows are returned in the order the IDs are given.
+     * @param predicate - Optional filter applied to each candidate row
+     * @param limit - Stop after this many matching rows
      */
-    selectByRowIds(rowIds: Set<number>, columns: string[] | '*'): Row[] {
+    selectByRowIds(
+        rowIds: Iterable<number>,
+        columns: string[] | '*',
+        predicate?: (row: Row) => boolean,
+        limit?: number
+    ): Row[] {
         const results: Row[] = [];
         const selectCols = columns === '*'
             ? this.schema.columns.map(c => c.name)
             : columns;
 
         for (const rowId of rowIds) {
+            if (limit !== undefined && results.length >= limit) {
+                break;
+            }
             const internalRow = this.rows.get(rowId);
-            if (internalRow) {
+            if (internalRow && (!predicate || predicate(internalRow.data))) {
                 const resultRow: Row = {};
                 for (const col of selectCols) {
                     const colName = col.includes('.') ? col.split('.')[1] : col;
@@ -271,15 +734,53 @@ export class Table {
     }
 
     /**
-     * Update rows matching a predicate.
+     * Update rows matching a predicate. `updates` is either the same new
+     * values for every row or a function computing them from each row as
+     * it was before the statement (UPDATE ... SET balance = balance - 100).
+     * @returns The updated rows, as they are after the update
      */
     update(
-        updates: Record<string, Value>,
+        updates: Record<string, Value> | ((row: Row) => Record<string, Value>),
         predicate?: (row: Row) => boolean
-    ): number {
-        let updatedCount = 0;
+    ): Row[] {
+        let valuesFor: (row: Row) => Row;
+        if (typeof updates === 'function') {
+            const compute = updates;
+            valuesFor = row => this.coerceUpdates(compute(row));
+        } else {
+            const values = this.coerceUpdates(updates);
+            valuesFor = () => values;
+        }
+
+        // Find rows to update and compute their new values
+        const changes: PendingUpdate[] = [];
+        for (const [, internalRow] of this.rows) {
+            if (!predicate || predicate(internalRow.data)) {
+                changes.push({ row: internalRow, values: valuesFor(internalRow.data) });
+            }
+        }
+
+        return this.applyUpdates(changes);
+    }
 
-        // Validate update columns and types
+    /**
+     * Update a single row by its row ID (INSERT ... ON CONFLICT DO UPDATE).
+     * @returns The row as it is after the update
+     */
+    updateRow(rowId: number, updates: Record<string, Value>): Row {
+        const internalRow = this.rows.get(rowId);
+        if (!internalRow) {
+            throw new Error(`Row ${rowId} does not exist in table '${this.schema.tableName}'`);
+        }
+        return this.applyUpdates([{ row: internalRow, values: this.coerceUpdates(updates) }])[0];
+    }
+
+    /**
+     * Validate update columns and types, converting the values to their
+     * columns' types.
+     */
+    private coerceUpdates(updates: Record<string, Value>): Row {
+        const values: Row = {};
         for (const [colName, value] of Object.entries(updates)) {
             const column = this.getColumn(colName);
             if (!column) {
@@ -287,61 +788,63 @@ export class Table {
             }
             if (!this.validateType(value, column.type)) {
                 throw new Error(
-                    `Type mismatch: column '${colName}' expects ${column.type}, got ${typeof value}`
+                    `Type mismatch: column '${colName}' expects ${column.type}, got ${typeName(value)}`
                 );
             }
+            values[colName] = this.coerceValue(value, column);
         }
+        return values;
+    }
 
-        // Find rows to update
-        const rowsToUpdate: InternalRow[] = [];
-        for (const [, internalRow] of this.rows) {
-            if (!predicate || predicate(internalRow.data)) {
-                rowsToUpdate.push(internalRow);
-            }
-        }
+    /**
+     * Apply (coerced) new values to rows, validating every updated row
+     * before changing any.
+     */
+    private applyUpdates(changes: PendingUpdate[]): Row[] {
+        const updated: Row[] = [];
 
         // Validate constraints for each update
-        for (const internalRow of rowsToUpdate) {
-            const newData = { ...internalRow.data, ...updates };
+        for (const { row: internalRow, values } of changes) {
+            const newData = { ...internalRow.data, ...values };
             this.validateConstraints(newData, internalRow._rowId);
         }
+        for (const { values } of changes) {
+            this.advanceAutoIncrement(values);
+        }
 
         // Apply updates
-        for (const internalRow of rowsToUpdate) {
+        for (const { row: internalRow, values } of changes) {
             // Update indexes - remove old values
-            for (const [colName, index] of this.indexes) {
-                if (colName in updates) {
-                    const oldValue = internalRow.data[colName];
-                    if (oldValue !== null && oldValue !== undefined) {
-                        index.remove(oldValue, internalRow._rowId);
-                    }
-                }
-            }
+            this.removeFromIndexes(internalRow);
 
             // Apply updates to row
-            Object.assign(internalRow.data, updates);
+            const before = { ...internalRow.data };
+            Object.assign(internalRow.data, values);
 
             // Update indexes - add new values
-            for (const [colName, index] of this.indexes) {
-                if (colName in updates) {
-                    const newValue = internalRow.data[colName];
-                    if (newValue !== null && newValue !== undefined) {
-                        index.add(newValue, internalRow._rowId);
-                    }
-                }
-            }
+            this.addToIndexes(internalRow);
 
-            updatedCount++;
+            const after = { ...internalRow.data };
+            this.emitChange({
+                type: 'UPDATE',
+                tableName: this.schema.tableName,
+                rowId: internalRow._rowId,
+                before,
+                after,
+            });
+
+            updated.push(after);
         }
 
-        return updatedCount;
+        return updated;
     }
 
     /**
      * Delete rows matching a predicate.
+     * @returns The deleted rows
      */
-    delete(predicate?: (row: Row) => boolean): number {
-        let deletedCount = 0;
+    delete(predicate?: (row: Row) => boolean): Row[] {
+        const deleted: Row[] = [];
 
         const rowIdsToDelete: number[] = [];
         for (const [rowId, internalRow] of this.rows) {
@@ -354,19 +857,107 @@ export class Table {
             const internalRow = this.rows.get(rowId);
             if (internalRow) {
                 // Update indexes
-                for (const [colName, index] of this.indexes) {
-                    const value = internalRow.data[colName];
-                    if (value !== null && value !== undefined) {
-                        index.remove(value, rowId);
+                this.removeFromIndexes(internalRow);
+
+                this.rows.delete(rowId);
+                deleted.push({ ...internalRow.data });
+
+                this.emitChange({
+                    type: 'DELETE',
+                    tableName: this.schema.tableName,
+                    row: internalRow,
+                });
+            }
+        }
+
+        return deleted;
+    }
+
+    /**
+     * Re-apply a change recorded in the write-ahead log.
+     * The change is applied as-is: it was validated when first made, and no
+     * change event is emitted.
+     */
+    replayChange(change: TableChange): void {
+        switch (change.type) {
+            case 'INSERT': {
+                const row: InternalRow = { _rowId: change.row._rowId, data: this.reviveRow({ ...change.row.data }) };
+                this.rows.set(row._rowId, row);
+                this.addToIndexes(row);
+                this.advanceAutoIncrement(row.data);
+                this.nextRowId = Math.max(this.nextRowId, row._rowId + 1);
+                break;
+            }
+
+            case 'UPDATE': {
+                const row = this.rows.get(change.rowId);
+                if (row) {
+                    this.removeFromIndexes(row);
+                    row.data = this.reviveRow({ ...change.after });
+                    this.addToIndexes(row);
+                    this.advanceAutoIncrement(row.data);
+                }
+                break;
+            }
+
+            case 'DELETE': {
+                const row = this.rows.get(change.row._rowId);
+                if (row) {
+                    this.removeFromIndexes(row);
+                    this.rows.delete(row._rowId);
+                }
+                break;
+            }
+        }
+    }
+
+    /**
+     * Undo changes previously emitted by this table, given in the order they
+     * were applied. They are reverted newest-first, which also restores the
+     * row ID counter to its value before the first change.
+     */
+    revertChanges(changes: TableChange[]): void {
+        let restoredDeletes = false;
+
+        for (let i = changes.length - 1; i >= 0; i--) {
+            const change = changes[i];
+
+            switch (change.type) {
+                case 'INSERT': {
+                    const row = this.rows.get(change.row._rowId);
+                    if (row) {
+                        this.removeFromIndexes(row);
+                        this.rows.delete(row._rowId);
                     }
+                    this.nextRowId = change.row._rowId;
+                    break;
                 }
 
-                this.rows.delete(rowId);
-                deletedCount++;
+                case 'UPDATE': {
+                    const row = this.rows.get(change.rowId);
+                    if (row) {
+                        this.removeFromIndexes(row);
+                        row.data = { ...change.before };
+                        this.addToIndexes(row);
+                    }
+                    break;
+                }
+
+                case 'DELETE': {
+                    this.rows.set(change.row._rowId, change.row);
+                    this.addToIndexes(change.row);
+                    restoredDeletes = true;
+                    break;
+                }
             }
         }
 
-        return deletedCount;
+        // Restored rows were appended; put rows back in row ID (insertion) order
+        if (restoredDeletes) {
+            this.rows = new Map(
+                Array.from(this.rows.entries()).sort((a, b) => a[0] - b[0])
+            );
+        }
     }
 
     /**
@@ -379,10 +970,99 @@ export class Table {
     /**
      * Get index for a column if it exists.
      */
-    getIndex(columnName: string): HashIndex | undefined {
+    getIndex(columnName: string): ColumnIndex | undefined {
         return this.indexes.get(columnName);
     }
 
+    /**
+     * Get an ordered (B-tree) index for a column if it exists.
+     */
+    getOrderedIndex(columnName: string): BTreeIndex | undefined {
+        const index = this.indexes.get(columnName);
+        return index instanceof BTreeIndex ? index : undefined;
+    }
+
+    /**
+     * Find a composite key index whose columns are all among the given
+     * columns (e.g. the columns a WHERE clause fixes by equality).
+     */
+    findCompositeIndex(columns: string[]): CompositeIndex | undefined {
+        return this.compositeIndexes.find(index =>
+            index.getColumnNames().every(column => columns.includes(column))
+        );
+    }
+
+    /**
+     * Create a secondary index and backfill it from the existing rows.
+     * A unique index fails if the column already holds duplicate values.
+     */
+    createIndex(definition: IndexDefinition): void {
+        const column = this.getColumn(definition.columnName);
+        if (!column) {
+            throw new Error(`Unknown column: '${definition.columnName}'`);
+        }
+
+        if (this.indexDefinitions.has(definition.indexName.toLowerCase())) {
+            throw new Error(`Index '${definition.indexName}' already exists`);
+        }
+
+        if (this.indexes.has(column.name)) {
+            throw new Error(
+                `Column '${column.name}' of table '${this.schema.tableName}' is already indexed`
+            );
+        }
+
+        const index = new HashIndex(column.name, definition.unique);
+        for (const [rowId, row] of this.rows) {
+            const value = row.data[column.name];
+            if (value === null || value === undefined) {
+                continue;
+            }
+            if (definition.unique && index.has(value)) {
+                throw new Error(
+                    `Cannot create unique index '${definition.indexName}': ` +
+                    `duplicate value '${value}' in column '${column.name}'`
+                );
+            }
+            index.add(value, rowId);
+        }
+
+        this.indexes.set(column.name, index);
+        this.indexDefinitions.set(definition.indexName.toLowerCase(), {
+            ...definition,
+            columnName: column.name,
+        });
+    }
+
+    /**
+     * Drop a secondary index.
+     * @returns The dropped index's definition, or undefined if there is none
+     */
+    dropIndex(indexName: string): IndexDefinition | undefined {
+        const definition = this.indexDefinitions.get(indexName.toLowerCase());
+        if (!definition) {
+            return undefined;
+        }
+
+        this.indexDefinitions.delete(indexName.toLowerCase());
+        this.indexes.delete(definition.columnName);
+        return definition;
+    }
+
+    /**
+     * Get a secondary index's definition by name.
+     */
+    getIndexDefinition(indexName: string): IndexDefinition | undefined {
+        return this.indexDefinitions.get(indexName.toLowerCase());
+    }
+
+    /**
+     * Get the definitions of all secondary indexes.
+     */
+    getIndexDefinitions(): IndexDefinition[] {
+        return Array.from(this.indexDefinitions.values());
+    }
+
     /**
      * Check if a column is the primary key.
      */
@@ -391,15 +1071,98 @@ export class Table {
         return column?.constraints.includes('PRIMARY_KEY') ?? false;
     }
 
+    /**
+     * Build a copy of this table under a new schema (ALTER TABLE).
+     * Rows keep their row IDs. `convert` maps each row to the new columns;
+     * a column it leaves out is filled as an INSERT would fill it
+     * (AUTOINCREMENT, then DEFAULT, then NULL). Every row is type-checked
+     * and validated against the new constraints, so a failure leaves this
+     * table untouched. AUTOINCREMENT counters and secondary indexes carry
+     * over to the columns that remain; `renames` maps old column names to
+     * new ones.
+     */
+    rebuild(schema: TableSchema, convert: (row: Row) => Row, renames: Map<string, string> = new Map()): Table {
+        const table = new Table(schema);
+        table.nextRowId = this.nextRowId;
+        table.evaluationContext = this.evaluationContext;
+
+        for (const [colName, last] of this.autoIncrement) {
+            const name = renames.get(colName) ?? colName;
+            if (table.autoIncrement.has(name)) {
+                table.autoIncrement.set(name, last);
+            }
+        }
+
+        for (const [rowId, internalRow] of this.rows) {
+            const converted = convert({ ...internalRow.data });
+            const row: Row = {};
+
+            for (const column of schema.columns) {
+                if (!(column.name in converted)) {
+                    row[column.name] = column.autoIncrement
+                        ? table.nextAutoIncrement(column)
+                        : table.defaultValue(column);
+                    continue;
+                }
+
+                const value = converted[column.name];
+                if (!table.validateType(value, column.type)) {
+                    throw new Error(
+                        `Type mismatch: column '${column.name}' expects ${column.type}, got ${typeName(value)}`
+                    );
+                }
+                row[column.name] = table.coerceValue(value, column);
+            }
+
+            table.validateConstraints(row);
+            table.advanceAutoIncrement(row);
+
+            const rebuilt: InternalRow = { _rowId: rowId, data: row };
+            table.rows.set(rowId, rebuilt);
+            table.addToIndexes(rebuilt);
+        }
+
+        for (const definition of this.getIndexDefinitions()) {
+            const columnName = renames.get(definition.columnName) ?? definition.columnName;
+            if (table.hasColumn(columnName)) {
+                table.createIndex({ ...definition, columnName });
+            }
+        }
+
+        return table;
+    }
+
+    /**
+     * Build an empty copy of this table (TRUNCATE): same schema, secondary
+     * index definitions and AUTOINCREMENT counters, but fresh indexes and
+     * row IDs starting again at 1.
+     */
+    truncated(): Table {
+        const table = new Table(this.schema);
+        table.evaluationContext = this.evaluationContext;
+        table.autoIncrement = new Map(this.autoIncrement);
+
+        for (const definition of this.getIndexDefinitions()) {
+            table.createIndex(definition);
+        }
+
+        return table;
+    }
+
     /**
      * Serialize the table for persistence.
      */
     serialize(): SerializedTable {
-        return {
+        const data: SerializedTable = {
             schema: this.schema,
             rows: Array.from(this.rows.values()),
             nextRowId: this.nextRowId,
+            indexes: this.getIndexDefinitions(),
         };
+        if (this.autoIncrement.size > 0) {
+            data.autoIncrement = Object.fromEntries(this.autoIncrement);
+        }
+        return data;
     }
 
     /**
@@ -410,17 +1173,25 @@ export class Table {
         table.nextRowId = data.nextRowId;
 
         for (const row of data.rows) {
+            table.reviveRow(row.data);
             table.rows.set(row._rowId, row);
+            table.advanceAutoIncrement(row.data);
 
             // Rebuild indexes
-            for (const [colName, index] of table.indexes) {
-                const value = row.data[colName];
-                if (value !== null && value !== undefined) {
-                    index.add(value, row._rowId);
-                }
+            table.addToIndexes(row);
+        }
+
+        for (const [colName, last] of Object.entries(data.autoIncrement ?? {})) {
+            if (table.autoIncrement.has(colName)) {
+                table.autoIncrement.set(colName, Math.max(table.autoIncrement.get(colName)!, last));
             }
         }
 
+        // Secondary indexes are backfilled from the restored rows
+        for (const definition of data.indexes ?? []) {
+            table.createIndex(definition);
+        }
+
         return table;
     }
 }
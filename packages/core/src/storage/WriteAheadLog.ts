@@ -0,0 +1,115 @@
+/**
+ * LedgerLite - Write-Ahead Log
+ *
+ * Append-only log of committed changes, stored next to the database snapshot.
+ *
+ * Design decisions:
+ * - One JSON line per committed transaction, so a commit is a single append
+ * - Every append is fsync'd before returning, making the commit durable
+ * - A torn final line (crash mid-append) is discarded on read; the
+ *   transaction it belonged to never reported success
+ * - Entries carry sequence numbers so replay can skip anything already
+ *   contained in the snapshot
+ *
+ * File format (one entry per line):
+ *   {"sequence":1,"records":[{"type":"INSERT","tableName":"users",...}]}
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { WalEntry } from '../types';
+
+export class WriteAheadLog {
+    private filePath: string;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    /**
+     * Get the log file path.
+     */
+    getPath(): string {
+        return this.filePath;
+    }
+
+    /**
+     * Check if the log file exists.
+     */
+    exists(): boolean {
+        return fs.existsSync(this.filePath);
+    }
+
+    /**
+     * Durably append an entry to the log.
+     */
+    append(entry: WalEntry): void {
+        const dir = path.dirname(this.filePath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+
+        const fd = fs.openSync(this.filePath, 'a');
+        try {
+            fs.writeSync(fd, JSON.stringify(entry) + '\n');
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+    }
+
+    /**
+     * Read all complete entries from the log.
+     * A torn final line is removed from the file so later appends start clean.
+     */
+    read(): WalEntry[] {
+        if (!this.exists()) {
+            return [];
+        }
+
+        const content = fs.readFileSync(this.filePath, 'utf-8');
+        const entries: WalEntry[] = [];
+        let offset = 0;
+
+        while (offset < content.length) {
+            const newline = content.indexOf('\n', offset);
+
+            // No terminating newline: the last append never completed
+            if (newline === -1) {
+                this.truncateTo(offset, content);
+                break;
+            }
+
+            const line = content.slice(offset, newline);
+            if (line.trim()) {
+                try {
+                    entries.push(JSON.parse(line));
+                } catch {
+                    throw new Error(
+                        `Corrupt write-ahead log entry in ${this.filePath} at entry ${entries.length + 1}`
+                    );
+                }
+            }
+
+            offset = newline + 1;
+        }
+
+        return entries;
+    }
+
+    /**
+     * Remove all entries (after a checkpoint).
+     */
+    truncate(): void {
+        if (this.exists()) {
+            fs.truncateSync(this.filePath, 0);
+        }
+    }
+
+    /**
+     * Cut the file down to the given character offset.
+     */
+    private truncateTo(offset: number, content: string): void {
+        fs.truncateSync(this.filePath, Buffer.byteLength(content.slice(0, offset), 'utf-8'));
+    }
+}
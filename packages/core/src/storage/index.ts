@@ -6,3 +6,5 @@
 
 export { Table } from './Table';
 export { Database } from './Database';
+export { WriteAheadLog } from './WriteAheadLog';
+export { Sequence } from './Sequence';
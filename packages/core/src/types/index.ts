@@ -6,6 +6,9 @@
  * and query operations.
  */
 
+import type { Decimal } from '../values/Decimal';
+import type { SqlDate, SqlTimestamp, SqlInterval } from '../values/DateTime';
+
 // =============================================================================
 // DATA TYPES
 // =============================================================================
@@ -16,14 +19,28 @@
  * - INT: Integer numbers
  * - TEXT: String values
  * - BOOL: Boolean true/false
+ * - DECIMAL: Exact fixed-point numbers, DECIMAL(precision, scale)
+ * - REAL: Double-precision floating-point numbers
+ * - DATE: Calendar dates
+ * - TIMESTAMP: Date and time of day (UTC, millisecond precision)
  */
-export type DataType = 'INT' | 'TEXT' | 'BOOL';
+export type DataType = 'INT' | 'TEXT' | 'BOOL' | 'DECIMAL' | 'REAL' | 'DATE' | 'TIMESTAMP';
 
 /**
  * JavaScript representation of LedgerLite values.
- * Maps DataType to actual runtime types.
+ * Maps DataType to actual runtime types: INT and REAL are both JavaScript
+ * numbers (an INT is always an integer). Intervals only exist as
+ * expression values (e.g. INTERVAL '1 day'); they cannot be stored.
  */
-export type Value = number | string | boolean | null;
+export type Value =
+    | number
+    | string
+    | boolean
+    | Decimal
+    | SqlDate
+    | SqlTimestamp
+    | SqlInterval
+    | null;
 
 /**
  * A single row of data, mapping column names to their values.
@@ -47,16 +64,57 @@ export interface InternalRow {
  * Column constraint types.
  * PRIMARY_KEY: Unique identifier for rows, automatically indexed
  * UNIQUE: Values must be unique across all rows
+ * NOT_NULL: The column may not hold NULL
  */
-export type ConstraintType = 'PRIMARY_KEY' | 'UNIQUE';
+export type ConstraintType = 'PRIMARY_KEY' | 'UNIQUE' | 'NOT_NULL';
 
 /**
  * Defines a single column in a table schema.
+ * DEFAULT and CHECK expressions are kept as SQL text, so schemas stay
+ * plain JSON; the table parses them when it is created or loaded.
  */
 export interface ColumnDefinition {
     name: string;
     type: DataType;
     constraints: ConstraintType[];
+    precision?: number; // DECIMAL only: total number of digits
+    scale?: number;     // DECIMAL only: digits after the decimal point
+    default?: string;   // DEFAULT expression, e.g. "NOW()"
+    check?: string;     // CHECK condition, e.g. "amount > 0"
+    autoIncrement?: boolean; // INT AUTOINCREMENT / SERIAL: filled when omitted from INSERT
+}
+
+/**
+ * What happens to referencing rows when a referenced row is deleted, or
+ * its key is updated.
+ * RESTRICT: The change is rejected while references exist (the default;
+ *           NO ACTION is accepted as a synonym)
+ * CASCADE: Referencing rows are deleted, or their keys updated to match
+ * SET_NULL: The referencing columns are set to NULL
+ */
+export type ReferentialAction = 'RESTRICT' | 'CASCADE' | 'SET_NULL';
+
+/**
+ * A FOREIGN KEY constraint: the values of `columns` must match a row of
+ * `referencedTable` (unless one of them is NULL).
+ */
+export interface ForeignKeyDefinition {
+    name: string;                // e.g. "orders_user_id_fkey"
+    columns: string[];
+    referencedTable: string;
+    referencedColumns: string[]; // empty when parsed means the primary key
+    onDelete: ReferentialAction;
+    onUpdate: ReferentialAction;
+}
+
+/**
+ * A sequence created with CREATE SEQUENCE; NEXTVAL('name') returns
+ * `start` first, then steps by `increment`.
+ */
+export interface SequenceDefinition {
+    name: string;
+    start: number;
+    increment: number;
 }
 
 /**
@@ -65,7 +123,18 @@ export interface ColumnDefinition {
 export interface TableSchema {
     tableName: string;
     columns: ColumnDefinition[];
-    primaryKey?: string; // Column name of the primary key
+    primaryKey?: string[];    // Column names of the primary key, in key order
+    uniqueKeys?: string[][];  // Multi-column UNIQUE constraints
+    foreignKeys?: ForeignKeyDefinition[];
+}
+
+/**
+ * A secondary index created with CREATE INDEX.
+ */
+export interface IndexDefinition {
+    indexName: string;
+    columnName: string;
+    unique: boolean;
 }
 
 // =============================================================================
@@ -77,32 +146,211 @@ export interface TableSchema {
  */
 export type StatementType =
     | 'CREATE_TABLE'
+    | 'ALTER_TABLE'
+    | 'DROP_TABLE'
+    | 'TRUNCATE'
     | 'INSERT'
     | 'SELECT'
     | 'UPDATE'
     | 'DELETE'
     | 'SHOW_TABLES'
-    | 'DESCRIBE';
+    | 'DESCRIBE'
+    | 'CREATE_INDEX'
+    | 'DROP_INDEX'
+    | 'CREATE_SEQUENCE'
+    | 'DROP_SEQUENCE'
+    | 'BEGIN'
+    | 'COMMIT'
+    | 'ROLLBACK';
 
 /**
- * WHERE clause condition.
- * Currently only supports equality comparisons (column = value).
+ * Comparison operators supported in expressions.
+ * '<>' and '!=' are synonyms.
  */
-export interface WhereCondition {
-    column: string;
-    operator: '=';
+export type ComparisonOperator = '=' | '<>' | '!=' | '<' | '>' | '<=' | '>=';
+
+/**
+ * Binary arithmetic operators supported in expressions, including string
+ * concatenation (||).
+ */
+export type ArithmeticOperator = '+' | '-' | '*' | '/' | '%' | '||';
+
+/**
+ * Logical connectives supported in expressions.
+ */
+export type LogicalOperator = 'AND' | 'OR';
+
+/**
+ * A literal value in an expression (e.g., 42, 'Alice', TRUE, NULL).
+ */
+export interface LiteralExpression {
+    type: 'LITERAL';
     value: Value;
 }
 
+/**
+ * A column reference in an expression (e.g., "id" or "users.id").
+ */
+export interface ColumnExpression {
+    type: 'COLUMN';
+    column: string;
+}
+
+/**
+ * A binary comparison (e.g., age >= 18).
+ */
+export interface ComparisonExpression {
+    type: 'COMPARISON';
+    operator: ComparisonOperator;
+    left: Expression;
+    right: Expression;
+}
+
+/**
+ * A binary arithmetic expression (e.g., posted + INTERVAL '30 days',
+ * price * qty, first_name || ' ' || last_name).
+ */
+export interface ArithmeticExpression {
+    type: 'ARITHMETIC';
+    operator: ArithmeticOperator;
+    left: Expression;
+    right: Expression;
+}
+
+/**
+ * Unary minus (e.g., -amount). Minus signs on numeric literals are folded
+ * into the literal by the parser instead.
+ */
+export interface NegateExpression {
+    type: 'NEGATE';
+    operand: Expression;
+}
+
+/**
+ * A scalar function call (e.g., NOW(), DATE_TRUNC('month', posted)).
+ * EXTRACT(field FROM x) is represented with the field name as a
+ * string literal first argument, and CAST(x AS type) with the type name
+ * (then any DECIMAL precision and scale) as literal arguments after x.
+ */
+export interface FunctionExpression {
+    type: 'FUNCTION';
+    name: string;
+    args: Expression[];
+}
+
+/**
+ * A binary logical expression (e.g., a = 1 AND b = 2).
+ */
+export interface LogicalExpression {
+    type: 'LOGICAL';
+    operator: LogicalOperator;
+    left: Expression;
+    right: Expression;
+}
+
+/**
+ * Logical negation (NOT expr).
+ */
+export interface NotExpression {
+    type: 'NOT';
+    operand: Expression;
+}
+
+/**
+ * NULL test (expr IS NULL / expr IS NOT NULL).
+ */
+export interface IsNullExpression {
+    type: 'IS_NULL';
+    operand: Expression;
+    negated: boolean;
+}
+
+/**
+ * Built-in aggregate functions.
+ */
+export type AggregateFunction = 'COUNT' | 'SUM' | 'MIN' | 'MAX' | 'AVG';
+
+/**
+ * An aggregate function call (e.g., SUM(amount), COUNT(*), COUNT(DISTINCT x)).
+ * `name` is a built-in AggregateFunction or the upper-case name of an
+ * aggregate registered with Database.createAggregate.
+ * `argument` is '*' only for COUNT(*).
+ */
+export interface AggregateExpression {
+    type: 'AGGREGATE';
+    name: string;
+    argument: Expression | '*';
+    distinct: boolean;
+}
+
+/**
+ * Expression tree node.
+ * Boolean expressions follow SQL three-valued logic: comparisons involving
+ * NULL evaluate to NULL (unknown) rather than true or false.
+ */
+export type Expression =
+    | LiteralExpression
+    | ColumnExpression
+    | ComparisonExpression
+    | ArithmeticExpression
+    | NegateExpression
+    | FunctionExpression
+    | LogicalExpression
+    | NotExpression
+    | IsNullExpression
+    | AggregateExpression;
+
+/**
+ * WHERE clause condition.
+ * A boolean expression; rows are kept only when it evaluates to TRUE.
+ */
+export type WhereCondition = Expression;
+
+/**
+ * Supported join types. 'FULL' is FULL OUTER JOIN.
+ */
+export type JoinType = 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'CROSS';
+
 /**
  * JOIN clause specification.
- * Only INNER JOIN with equality condition is supported.
+ * Joins use a single equality condition; CROSS JOIN has none.
  */
 export interface JoinClause {
-    type: 'INNER';
+    type: JoinType;
     table: string;
-    leftColumn: string;  // e.g., "orders.user_id"
-    rightColumn: string; // e.g., "users.id"
+    alias?: string;       // e.g., "o" in "JOIN orders o"
+    leftColumn?: string;  // e.g., "orders.user_id" (absent for CROSS JOIN)
+    rightColumn?: string; // e.g., "users.id" (absent for CROSS JOIN)
+}
+
+/**
+ * Sort direction for ORDER BY.
+ */
+export type SortDirection = 'ASC' | 'DESC';
+
+/**
+ * Placement of NULLs in ORDER BY.
+ */
+export type NullsOrder = 'FIRST' | 'LAST';
+
+/**
+ * A single ORDER BY term.
+ * When `nulls` is omitted, NULLs sort as larger than any other value
+ * (last for ASC, first for DESC).
+ */
+export interface OrderByItem {
+    expression: Expression;
+    direction: SortDirection;
+    nulls?: NullsOrder;
+}
+
+/**
+ * A single item in a SELECT or RETURNING list. The output column is named
+ * by `alias` (expr AS alias) or else after the expression's SQL text.
+ */
+export interface SelectItem {
+    expression: Expression;
+    alias?: string;
 }
 
 /**
@@ -112,6 +360,10 @@ export interface CreateTableStatement {
     type: 'CREATE_TABLE';
     tableName: string;
     columns: ColumnDefinition[];
+    primaryKey?: string[];   // Table-level PRIMARY KEY (a, b)
+    uniqueKeys?: string[][]; // Table-level UNIQUE (a, b)
+    foreignKeys?: ForeignKeyDefinition[];
+    ifNotExists?: boolean;   // CREATE TABLE IF NOT EXISTS
 }
 
 /**
@@ -121,7 +373,22 @@ export interface InsertStatement {
     type: 'INSERT';
     tableName: string;
     columns: string[];
-    values: Value[];
+    values?: Expression[][];  // VALUES (...), (...): one list per row
+    select?: SelectStatement; // INSERT ... SELECT (instead of VALUES)
+    onConflict?: OnConflictClause;
+    returning?: SelectItem[] | '*';
+}
+
+/**
+ * ON CONFLICT clause of an INSERT. `columns` names the unique key to watch
+ * (any unique key if omitted, which only DO NOTHING allows). DO UPDATE
+ * assignments may use the existing row's columns and, as excluded.col,
+ * the row that was proposed for insertion.
+ */
+export interface OnConflictClause {
+    columns?: string[];
+    action: 'NOTHING' | 'UPDATE';
+    set?: Record<string, Expression>;
 }
 
 /**
@@ -129,10 +396,16 @@ export interface InsertStatement {
  */
 export interface SelectStatement {
     type: 'SELECT';
-    columns: string[] | '*';
+    columns: SelectItem[] | '*';
     tableName: string;
+    alias?: string;
     where?: WhereCondition;
-    join?: JoinClause;
+    joins?: JoinClause[];
+    groupBy?: Expression[];
+    having?: Expression;
+    orderBy?: OrderByItem[];
+    limit?: number;
+    offset?: number;
 }
 
 /**
@@ -141,8 +414,9 @@ export interface SelectStatement {
 export interface UpdateStatement {
     type: 'UPDATE';
     tableName: string;
-    set: Record<string, Value>;
+    set: Record<string, Expression>; // evaluated against each row before it changes
     where?: WhereCondition;
+    returning?: SelectItem[] | '*';
 }
 
 /**
@@ -152,6 +426,7 @@ export interface DeleteStatement {
     type: 'DELETE';
     tableName: string;
     where?: WhereCondition;
+    returning?: SelectItem[] | '*';
 }
 
 /**
@@ -169,17 +444,114 @@ export interface DescribeStatement {
     tableName: string;
 }
 
+/**
+ * Parsed CREATE [UNIQUE] INDEX statement.
+ */
+export interface CreateIndexStatement {
+    type: 'CREATE_INDEX';
+    indexName: string;
+    tableName: string;
+    columnName: string;
+    unique: boolean;
+}
+
+/**
+ * One change made by ALTER TABLE.
+ * ADD_COLUMN: Add a column (with its constraints and REFERENCES, if any)
+ * DROP_COLUMN: Remove a column and its values
+ * RENAME_COLUMN: Rename a column
+ * RENAME_TABLE: Rename the table (RENAME TO)
+ * ALTER_COLUMN_TYPE: Change a column's type, converting its values
+ */
+export type AlterTableAction =
+    | { type: 'ADD_COLUMN'; column: ColumnDefinition; foreignKeys?: ForeignKeyDefinition[] }
+    | { type: 'DROP_COLUMN'; columnName: string }
+    | { type: 'RENAME_COLUMN'; columnName: string; newName: string }
+    | { type: 'RENAME_TABLE'; newName: string }
+    | {
+        type: 'ALTER_COLUMN_TYPE';
+        columnName: string;
+        dataType: DataType;
+        precision?: number; // DECIMAL only
+        scale?: number;     // DECIMAL only
+    };
+
+/**
+ * Parsed ALTER TABLE statement.
+ */
+export interface AlterTableStatement {
+    type: 'ALTER_TABLE';
+    tableName: string;
+    action: AlterTableAction;
+}
+
+/**
+ * Parsed DROP TABLE statement.
+ */
+export interface DropTableStatement {
+    type: 'DROP_TABLE';
+    tableName: string;
+    ifExists?: boolean;
+}
+
+/**
+ * Parsed TRUNCATE statement.
+ */
+export interface TruncateStatement {
+    type: 'TRUNCATE';
+    tableName: string;
+}
+
+/**
+ * Parsed DROP INDEX statement.
+ */
+export interface DropIndexStatement {
+    type: 'DROP_INDEX';
+    indexName: string;
+}
+
+/**
+ * Parsed CREATE SEQUENCE statement.
+ */
+export interface CreateSequenceStatement {
+    type: 'CREATE_SEQUENCE';
+    sequence: SequenceDefinition;
+}
+
+/**
+ * Parsed DROP SEQUENCE statement.
+ */
+export interface DropSequenceStatement {
+    type: 'DROP_SEQUENCE';
+    sequenceName: string;
+}
+
+/**
+ * Parsed transaction control statement (BEGIN, COMMIT, ROLLBACK).
+ */
+export interface TransactionStatement {
+    type: 'BEGIN' | 'COMMIT' | 'ROLLBACK';
+}
+
 /**
  * Union of all possible parsed statements.
  */
 export type ParsedStatement =
     | CreateTableStatement
+    | AlterTableStatement
+    | DropTableStatement
+    | TruncateStatement
     | InsertStatement
     | SelectStatement
     | UpdateStatement
     | DeleteStatement
     | ShowTablesStatement
-    | DescribeStatement;
+    | DescribeStatement
+    | CreateIndexStatement
+    | DropIndexStatement
+    | CreateSequenceStatement
+    | DropSequenceStatement
+    | TransactionStatement;
 
 // =============================================================================
 // QUERY RESULTS
@@ -215,21 +587,81 @@ export type ExecutionResult = QueryResult | QueryError;
 
 /**
  * Serializable table data for persistence.
+ * `autoIncrement` maps each AUTOINCREMENT column to the last value used.
  */
 export interface SerializedTable {
     schema: TableSchema;
     rows: InternalRow[];
     nextRowId: number;
+    indexes?: IndexDefinition[];
+    autoIncrement?: Record<string, number>;
 }
 
+/**
+ * Serializable sequence state: its definition and the last value
+ * returned by NEXTVAL (null before the first call).
+ */
+export interface SerializedSequence extends SequenceDefinition {
+    lastValue: number | null;
+}
+
+/**
+ * A single row-level change made to a table.
+ * Emitted by Table after each successful write, and used to roll back
+ * transactions.
+ */
+export type TableChange =
+    | { type: 'INSERT'; tableName: string; row: InternalRow }
+    | { type: 'UPDATE'; tableName: string; rowId: number; before: Row; after: Row }
+    | { type: 'DELETE'; tableName: string; row: InternalRow };
+
 /**
  * Serializable database state for persistence.
+ * `walSequence` is the last write-ahead log entry included in the snapshot.
  */
 export interface SerializedDatabase {
     version: string;
     tables: Record<string, SerializedTable>;
     createdAt: string;
     updatedAt: string;
+    walSequence?: number;
+    sequences?: SerializedSequence[];
+}
+
+/**
+ * A single mutation recorded in the write-ahead log.
+ * ALTER_TABLE carries the rebuilt table, so replaying it never re-evaluates
+ * DEFAULTs or conversions.
+ */
+export type WalRecord =
+    | TableChange
+    | { type: 'CREATE_TABLE'; schema: TableSchema }
+    | { type: 'ALTER_TABLE'; tableName: string; action: AlterTableAction; table: SerializedTable }
+    | { type: 'DROP_TABLE'; tableName: string }
+    | { type: 'TRUNCATE_TABLE'; tableName: string }
+    | { type: 'CREATE_INDEX'; tableName: string; index: IndexDefinition }
+    | { type: 'DROP_INDEX'; tableName: string; indexName: string }
+    | { type: 'CREATE_SEQUENCE'; sequence: SequenceDefinition }
+    | { type: 'DROP_SEQUENCE'; sequenceName: string }
+    | { type: 'SEQUENCE_VALUE'; sequenceName: string; value: number };
+
+/**
+ * One line of the write-ahead log: all records of a single committed
+ * transaction, tagged with a monotonically increasing sequence number.
+ */
+export interface WalEntry {
+    sequence: number;
+    records: WalRecord[];
+}
+
+/**
+ * Options for file-backed persistence.
+ */
+export interface PersistenceOptions {
+    /** Log every committed change to "<path>.wal" (default: true). */
+    writeAheadLog?: boolean;
+    /** Checkpoint after this many logged commits; 0 disables (default: 1000). */
+    checkpointInterval?: number;
 }
 
 // =============================================================================
@@ -242,6 +674,30 @@ export interface SerializedDatabase {
  */
 export type IndexEntry = Map<Value, Set<number>>;
 
+/**
+ * One end of a key range for ordered index scans.
+ */
+export interface RangeBound {
+    value: Value;
+    inclusive: boolean;
+}
+
+/**
+ * Common contract implemented by all column indexes.
+ * Indexes map non-NULL column values to the IDs of rows holding them.
+ */
+export interface ColumnIndex {
+    getColumnName(): string;
+    getIsUnique(): boolean;
+    add(value: Value, rowId: number): void;
+    remove(value: Value, rowId: number): void;
+    lookup(value: Value): Set<number>;
+    has(value: Value): boolean;
+    size(): number;
+    clear(): void;
+    getStats(): { uniqueKeys: number; totalEntries: number };
+}
+
 /**
  * Index metadata and storage.
  */
@@ -250,3 +706,37 @@ export interface TableIndex {
     isUnique: boolean;
     entries: IndexEntry;
 }
+
+// =============================================================================
+// USER-DEFINED FUNCTION TYPES
+// =============================================================================
+
+/**
+ * A scalar function registered with Database.createFunction.
+ *
+ * Arguments are converted to `argTypes` before `call` runs (an INT argument
+ * to a DECIMAL parameter arrives as a Decimal), and the result must be a
+ * value of `returnType`. A NULL argument makes the result NULL without
+ * calling the function.
+ */
+export interface ScalarFunctionDefinition {
+    argTypes: DataType[];
+    returnType: DataType;
+    call(...args: Value[]): Value;
+}
+
+/**
+ * An aggregate function registered with Database.createAggregate, computed
+ * per group as final(step(...step(init(), v1)..., vn)).
+ *
+ * Like the built-in aggregates it takes one argument and skips NULLs;
+ * values are converted to `argType` before `step` sees them. Over a group
+ * with no values, `final` receives the initial state.
+ */
+export interface AggregateFunctionDefinition<State = unknown> {
+    argType: DataType;
+    returnType: DataType;
+    init(): State;
+    step(state: State, value: Value): State;
+    final(state: State): Value;
+}
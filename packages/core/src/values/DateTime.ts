@@ -0,0 +1,480 @@
+/**
+ * LedgerLite - Dates, Timestamps and Intervals
+ *
+ * Runtime values for DATE and TIMESTAMP columns and INTERVAL literals.
+ *
+ * Design decisions:
+ * - All calendar math is done in UTC; there are no time zones
+ * - A date is a whole number of days since 1970-01-01, a timestamp a whole
+ *   number of milliseconds since 1970-01-01 00:00:00
+ * - An interval keeps months, days and milliseconds apart (as PostgreSQL
+ *   does), because a month has no fixed length: adding '1 month' to
+ *   January 31 gives the last day of February
+ * - Values are immutable and serialize to their SQL text form
+ *   ("2026-01-31", "2026-01-31 09:30:00", "1 mon 2 days")
+ */
+
+const MS_PER_SECOND = 1000;
+const MS_PER_MINUTE = 60 * MS_PER_SECOND;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/** 'YYYY-MM-DD' */
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** 'YYYY-MM-DD HH:MM[:SS[.fff]]', with ' ' or 'T' as separator and an optional 'Z' */
+const TIMESTAMP_PATTERN =
+    /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?Z?$/;
+
+/** One "<quantity> <unit>" pair of an interval, e.g. "-3 days". */
+const INTERVAL_PART_PATTERN = /([+-]?\d+)\s*([a-z]+)/gi;
+
+/**
+ * Interval units, in the three components they contribute to.
+ */
+const INTERVAL_UNITS: Record<string, { months?: number; days?: number; millis?: number }> = {
+    year: { months: 12 },
+    month: { months: 1 },
+    mon: { months: 1 },
+    week: { days: 7 },
+    day: { days: 1 },
+    hour: { millis: MS_PER_HOUR },
+    minute: { millis: MS_PER_MINUTE },
+    min: { millis: MS_PER_MINUTE },
+    second: { millis: MS_PER_SECOND },
+    sec: { millis: MS_PER_SECOND },
+    millisecond: { millis: 1 },
+};
+
+/**
+ * Units accepted by DATE_TRUNC, from coarsest to finest.
+ */
+export const TRUNCATE_UNITS = ['year', 'quarter', 'month', 'week', 'day', 'hour', 'minute', 'second'] as const;
+export type TruncateUnit = typeof TRUNCATE_UNITS[number];
+
+/**
+ * Fields accepted by EXTRACT.
+ */
+export const EXTRACT_FIELDS = [
+    'YEAR', 'QUARTER', 'MONTH', 'WEEK', 'DAY', 'HOUR', 'MINUTE', 'SECOND', 'DOW', 'DOY', 'EPOCH',
+] as const;
+export type ExtractField = typeof EXTRACT_FIELDS[number];
+
+function pad(value: number, width: number = 2): string {
+    return String(value).padStart(width, '0');
+}
+
+/**
+ * Build a UTC epoch-millisecond value from calendar parts, or undefined if
+ * the parts do not name a real moment (e.g. February 30).
+ */
+function toEpochMillis(
+    year: number, month: number, day: number,
+    hour: number = 0, minute: number = 0, second: number = 0, millis: number = 0
+): number | undefined {
+    if (year < 1 || month < 1 || month > 12 || hour > 23 || minute > 59 || second > 59) {
+        return undefined;
+    }
+    // Setters rather than Date.UTC, which maps years 0-99 to 1900-1999
+    const date = new Date(0);
+    date.setUTCFullYear(year, month - 1, day);
+    date.setUTCHours(hour, minute, second, millis);
+    if (date.getUTCDate() !== day || date.getUTCMonth() !== month - 1) {
+        return undefined;
+    }
+    return date.getTime();
+}
+
+/**
+ * Add a number of months, clamping the day to the end of the target month.
+ */
+function addMonths(epochMillis: number, months: number): number {
+    if (months === 0) {
+        return epochMillis;
+    }
+    const date = new Date(epochMillis);
+    const day = date.getUTCDate();
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() + months);
+
+    const lastOfMonth = new Date(date.getTime());
+    lastOfMonth.setUTCMonth(lastOfMonth.getUTCMonth() + 1, 0);
+    date.setUTCDate(Math.min(day, lastOfMonth.getUTCDate()));
+    return date.getTime();
+}
+
+/**
+ * Modulo that is never negative (for dates before 1970).
+ */
+function mod(value: number, divisor: number): number {
+    return ((value % divisor) + divisor) % divisor;
+}
+
+/**
+ * Truncate an epoch-millisecond value to the start of a unit.
+ */
+function truncateMillis(epochMillis: number, unit: TruncateUnit): number {
+    const date = new Date(epochMillis - mod(epochMillis, MS_PER_DAY));
+
+    switch (unit) {
+        case 'year':
+            date.setUTCMonth(0, 1);
+            return date.getTime();
+        case 'quarter':
+            date.setUTCMonth(date.getUTCMonth() - (date.getUTCMonth() % 3), 1);
+            return date.getTime();
+        case 'month':
+            date.setUTCDate(1);
+            return date.getTime();
+        case 'week':
+            // Weeks start on Monday (ISO 8601)
+            return date.getTime() - ((date.getUTCDay() + 6) % 7) * MS_PER_DAY;
+        case 'day':
+            return date.getTime();
+        case 'hour':
+            return epochMillis - mod(epochMillis, MS_PER_HOUR);
+        case 'minute':
+            return epochMillis - mod(epochMillis, MS_PER_MINUTE);
+        case 'second':
+            return epochMillis - mod(epochMillis, MS_PER_SECOND);
+    }
+}
+
+/**
+ * Extract a calendar field from an epoch-millisecond value.
+ * Every field is an integer; fractional seconds are dropped.
+ */
+function extractField(epochMillis: number, field: ExtractField): number {
+    const date = new Date(epochMillis);
+    switch (field) {
+        case 'YEAR':
+            return date.getUTCFullYear();
+        case 'QUARTER':
+            return Math.floor(date.getUTCMonth() / 3) + 1;
+        case 'MONTH':
+            return date.getUTCMonth() + 1;
+        case 'WEEK': {
+            // ISO week: the week containing the year's first Thursday is week 1
+            const thursday = truncateMillis(epochMillis, 'week') + 3 * MS_PER_DAY;
+            const yearStart = truncateMillis(thursday, 'year');
+            return Math.floor((thursday - yearStart) / (7 * MS_PER_DAY)) + 1;
+        }
+        case 'DAY':
+            return date.getUTCDate();
+        case 'HOUR':
+            return date.getUTCHours();
+        case 'MINUTE':
+            return date.getUTCMinutes();
+        case 'SECOND':
+            return date.getUTCSeconds();
+        case 'DOW':
+            return date.getUTCDay();
+        case 'DOY':
+            return Math.floor((truncateMillis(epochMillis, 'day') - truncateMillis(epochMillis, 'year')) / MS_PER_DAY) + 1;
+        case 'EPOCH':
+            return Math.floor(epochMillis / MS_PER_SECOND);
+    }
+}
+
+/**
+ * Format the calendar date part of an epoch-millisecond value.
+ */
+function formatDate(epochMillis: number): string {
+    const date = new Date(epochMillis);
+    return `${pad(date.getUTCFullYear(), 4)}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+/**
+ * A span of time: months, days and milliseconds, each possibly negative.
+ */
+export class SqlInterval {
+    readonly months: number;
+    readonly days: number;
+    readonly millis: number;
+
+    constructor(months: number, days: number, millis: number) {
+        this.months = months;
+        this.days = days;
+        this.millis = millis;
+    }
+
+    /**
+     * Parse interval text such as "1 day", "2 hours 30 minutes" or "-1 year".
+     * Unit names may be singular or plural.
+     */
+    static parse(text: string): SqlInterval {
+        let months = 0;
+        let days = 0;
+        let millis = 0;
+        let consumed = '';
+
+        for (const match of text.matchAll(INTERVAL_PART_PATTERN)) {
+            const quantity = parseInt(match[1], 10);
+            const unitName = match[2].toLowerCase();
+            const unit = INTERVAL_UNITS[unitName] ?? INTERVAL_UNITS[unitName.replace(/s$/, '')];
+            if (!unit) {
+                throw new Error(`Invalid INTERVAL unit '${match[2]}' in '${text}'`);
+            }
+            months += quantity * (unit.months ?? 0);
+            days += quantity * (unit.days ?? 0);
+            millis += quantity * (unit.millis ?? 0);
+            consumed += match[0];
+        }
+
+        if (consumed === '' || consumed.replace(/\s/g, '') !== text.replace(/\s/g, '')) {
+            throw new Error(`Invalid INTERVAL value: '${text}'`);
+        }
+
+        return new SqlInterval(months, days, millis);
+    }
+
+    /**
+     * Check whether the interval has a time-of-day part (hours or smaller).
+     */
+    hasTime(): boolean {
+        return this.millis !== 0;
+    }
+
+    /**
+     * Return the interval with every component's sign flipped.
+     */
+    negate(): SqlInterval {
+        return new SqlInterval(-this.months, -this.days, -this.millis);
+    }
+
+    /**
+     * Add two intervals component-wise.
+     */
+    add(other: SqlInterval): SqlInterval {
+        return new SqlInterval(this.months + other.months, this.days + other.days, this.millis + other.millis);
+    }
+
+    /**
+     * Approximate length in milliseconds, counting a month as 30 days.
+     * Used only to order and compare intervals.
+     */
+    approximateMillis(): number {
+        return (this.months * 30 + this.days) * MS_PER_DAY + this.millis;
+    }
+
+    /**
+     * Render in PostgreSQL style, e.g. "1 year 2 mons 3 days 04:05:06".
+     */
+    toString(): string {
+        const parts: string[] = [];
+        const years = Math.trunc(this.months / 12);
+        const months = this.months % 12;
+
+        if (years !== 0) parts.push(`${years} year${Math.abs(years) === 1 ? '' : 's'}`);
+        if (months !== 0) parts.push(`${months} mon${Math.abs(months) === 1 ? '' : 's'}`);
+        if (this.days !== 0) parts.push(`${this.days} day${Math.abs(this.days) === 1 ? '' : 's'}`);
+
+        if (this.millis !== 0 || parts.length === 0) {
+            const total = Math.abs(this.millis);
+            const sign = this.millis < 0 ? '-' : '';
+            const hours = Math.floor(total / MS_PER_HOUR);
+            const minutes = Math.floor((total % MS_PER_HOUR) / MS_PER_MINUTE);
+            const seconds = Math.floor((total % MS_PER_MINUTE) / MS_PER_SECOND);
+            const fraction = total % MS_PER_SECOND;
+            parts.push(
+                `${sign}${pad(hours)}:${pad(minutes)}:${pad(seconds)}${fraction ? `.${pad(fraction, 3)}` : ''}`
+            );
+        }
+
+        return parts.join(' ');
+    }
+
+    toJSON(): string {
+        return this.toString();
+    }
+}
+
+/**
+ * A calendar date without a time of day.
+ */
+export class SqlDate {
+    /** Days since 1970-01-01. */
+    private readonly days: number;
+
+    private constructor(days: number) {
+        this.days = days;
+    }
+
+    /**
+     * Parse a date in 'YYYY-MM-DD' form.
+     */
+    static parse(text: string): SqlDate {
+        const match = DATE_PATTERN.exec(text.trim());
+        const millis = match
+            ? toEpochMillis(Number(match[1]), Number(match[2]), Number(match[3]))
+            : undefined;
+        if (millis === undefined) {
+            throw new Error(`Invalid DATE value: '${text}'`);
+        }
+        return new SqlDate(millis / MS_PER_DAY);
+    }
+
+    /**
+     * The date containing a given moment.
+     */
+    static fromEpochMillis(epochMillis: number): SqlDate {
+        return new SqlDate(Math.floor(epochMillis / MS_PER_DAY));
+    }
+
+    /**
+     * Milliseconds since the epoch at midnight of this date.
+     */
+    epochMillis(): number {
+        return this.days * MS_PER_DAY;
+    }
+
+    /**
+     * Number of whole days from another date to this one.
+     */
+    daysSince(other: SqlDate): number {
+        return this.days - other.days;
+    }
+
+    /**
+     * Add a number of days.
+     */
+    addDays(days: number): SqlDate {
+        return new SqlDate(this.days + days);
+    }
+
+    /**
+     * Add an interval. Whole months and days keep the result a date;
+     * an interval with a time part produces a timestamp.
+     */
+    addInterval(interval: SqlInterval): SqlDate | SqlTimestamp {
+        const shifted = addMonths(this.epochMillis(), interval.months) + interval.days * MS_PER_DAY;
+        return interval.hasTime()
+            ? SqlTimestamp.fromEpochMillis(shifted + interval.millis)
+            : SqlDate.fromEpochMillis(shifted);
+    }
+
+    /**
+     * Convert to a timestamp at midnight.
+     */
+    toTimestamp(): SqlTimestamp {
+        return SqlTimestamp.fromEpochMillis(this.epochMillis());
+    }
+
+    /**
+     * Truncate to the first day of a unit. Units finer than a day leave
+     * the date unchanged.
+     */
+    truncate(unit: TruncateUnit): SqlDate {
+        return SqlDate.fromEpochMillis(truncateMillis(this.epochMillis(), unit));
+    }
+
+    /**
+     * Extract a calendar field; time fields are 0.
+     */
+    extract(field: ExtractField): number {
+        return extractField(this.epochMillis(), field);
+    }
+
+    toString(): string {
+        return formatDate(this.epochMillis());
+    }
+
+    toJSON(): string {
+        return this.toString();
+    }
+}
+
+/**
+ * A date and time of day, with millisecond precision.
+ */
+export class SqlTimestamp {
+    /** Milliseconds since 1970-01-01 00:00:00 UTC. */
+    private readonly millis: number;
+
+    private constructor(millis: number) {
+        this.millis = millis;
+    }
+
+    /**
+     * Parse 'YYYY-MM-DD HH:MM[:SS[.fff]]' (a 'T' separator and a trailing
+     * 'Z' are accepted). A bare date means midnight.
+     */
+    static parse(text: string): SqlTimestamp {
+        const match = TIMESTAMP_PATTERN.exec(text.trim());
+        const millis = match
+            ? toEpochMillis(
+                Number(match[1]), Number(match[2]), Number(match[3]),
+                Number(match[4] ?? 0), Number(match[5] ?? 0), Number(match[6] ?? 0),
+                Number((match[7] ?? '0').padEnd(3, '0'))
+            )
+            : undefined;
+        if (millis === undefined) {
+            throw new Error(`Invalid TIMESTAMP value: '${text}'`);
+        }
+        return new SqlTimestamp(millis);
+    }
+
+    /**
+     * Create a timestamp from milliseconds since the epoch.
+     */
+    static fromEpochMillis(millis: number): SqlTimestamp {
+        return new SqlTimestamp(millis);
+    }
+
+    /**
+     * The current time.
+     */
+    static now(): SqlTimestamp {
+        return new SqlTimestamp(Date.now());
+    }
+
+    /**
+     * Milliseconds since the epoch.
+     */
+    epochMillis(): number {
+        return this.millis;
+    }
+
+    /**
+     * Add an interval: months first (clamping the day), then days and time.
+     */
+    addInterval(interval: SqlInterval): SqlTimestamp {
+        return new SqlTimestamp(
+            addMonths(this.millis, interval.months) + interval.days * MS_PER_DAY + interval.millis
+        );
+    }
+
+    /**
+     * Truncate to the start of a unit.
+     */
+    truncate(unit: TruncateUnit): SqlTimestamp {
+        return new SqlTimestamp(truncateMillis(this.millis, unit));
+    }
+
+    /**
+     * Extract a calendar or time field.
+     */
+    extract(field: ExtractField): number {
+        return extractField(this.millis, field);
+    }
+
+    toString(): string {
+        const date = new Date(this.millis);
+        const fraction = date.getUTCMilliseconds();
+        return `${formatDate(this.millis)} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:` +
+            `${pad(date.getUTCSeconds())}${fraction ? `.${pad(fraction, 3)}` : ''}`;
+    }
+
+    toJSON(): string {
+        return this.toString();
+    }
+}
+
+/**
+ * Difference between two moments as an interval of whole days plus time.
+ */
+export function intervalBetween(later: number, earlier: number): SqlInterval {
+    const difference = later - earlier;
+    const days = Math.trunc(difference / MS_PER_DAY);
+    return new SqlInterval(0, days, difference - days * MS_PER_DAY);
+}
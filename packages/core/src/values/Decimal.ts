@@ -0,0 +1,262 @@
+/**
+ * LedgerLite - Exact Decimal Numbers
+ *
+ * Fixed-point decimal values used by DECIMAL / NUMERIC columns.
+ *
+ * Design decisions:
+ * - A decimal is an arbitrary-size integer (BigInt) plus a scale, so
+ *   19.99 is stored as 1999 with scale 2; no floating point is involved
+ * - Values are immutable: every operation returns a new Decimal
+ * - The scale is part of the value as written (1.50 keeps two digits)
+ *   but not of its identity: 1.5 and 1.50 compare as equal
+ * - Rounding is half-to-even ("banker's rounding"), which does not bias
+ *   totals when many rounded amounts are summed
+ * - Serializes to a JSON string, never a number, so no digits are lost
+ */
+
+const TEN = BigInt(10);
+const ZERO = BigInt(0);
+
+/** Literal syntax: optional sign, digits, optional fraction and exponent. */
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+function powerOfTen(exponent: number): bigint {
+    return TEN ** BigInt(exponent);
+}
+
+function abs(value: bigint): bigint {
+    return value < ZERO ? -value : value;
+}
+
+/**
+ * Divide two integers, rounding the quotient half-to-even.
+ */
+function divideRounded(dividend: bigint, divisor: bigint): bigint {
+    if (divisor < ZERO) {
+        dividend = -dividend;
+        divisor = -divisor;
+    }
+
+    const quotient = dividend / divisor; // truncates toward zero
+    const remainder = dividend % divisor;
+    if (remainder === ZERO) {
+        return quotient;
+    }
+
+    const twiceRemainder = abs(remainder) * BigInt(2);
+    const roundAway =
+        twiceRemainder > divisor ||
+        (twiceRemainder === divisor && quotient % BigInt(2) !== ZERO);
+    if (!roundAway) {
+        return quotient;
+    }
+    return dividend < ZERO ? quotient - BigInt(1) : quotient + BigInt(1);
+}
+
+export class Decimal {
+    /** The digits of the value with the decimal point removed. */
+    private readonly unscaled: bigint;
+    /** Number of digits after the decimal point. */
+    private readonly scale: number;
+
+    private constructor(unscaled: bigint, scale: number) {
+        this.unscaled = unscaled;
+        this.scale = scale;
+    }
+
+    /**
+     * Parse decimal text such as "19.99", "-0.5" or "1.2e3".
+     */
+    static parse(text: string): Decimal {
+        const match = DECIMAL_PATTERN.exec(text.trim());
+        if (!match || (match[2] === '' && (match[3] ?? '') === '')) {
+            throw new Error(`Invalid decimal value: '${text}'`);
+        }
+
+        const [, sign, whole, fraction = '', exponent] = match;
+        let unscaled = BigInt((whole || '0') + fraction);
+        let scale = fraction.length - (exponent ? parseInt(exponent, 10) : 0);
+
+        if (scale < 0) {
+            unscaled *= powerOfTen(-scale);
+            scale = 0;
+        }
+
+        return new Decimal(sign === '-' ? -unscaled : unscaled, scale);
+    }
+
+    /**
+     * Convert a JavaScript number (INT or REAL value) to a decimal. A REAL
+     * converts via its shortest round-trip text, so 0.1 becomes exactly 0.1.
+     */
+    static fromNumber(value: number): Decimal {
+        if (!Number.isFinite(value)) {
+            throw new Error(`Cannot convert ${value} to DECIMAL`);
+        }
+        if (Number.isSafeInteger(value)) {
+            return new Decimal(BigInt(value), 0);
+        }
+        return Decimal.parse(String(value));
+    }
+
+    /**
+     * Convert a numeric value (number or decimal) to a decimal.
+     */
+    static from(value: number | Decimal): Decimal {
+        return value instanceof Decimal ? value : Decimal.fromNumber(value);
+    }
+
+    /**
+     * Check whether a value is a decimal.
+     */
+    static isDecimal(value: unknown): value is Decimal {
+        return value instanceof Decimal;
+    }
+
+    /**
+     * Get the number of digits after the decimal point.
+     */
+    getScale(): number {
+        return this.scale;
+    }
+
+    /**
+     * Get the number of digits before the decimal point.
+     */
+    integerDigits(): number {
+        const whole = abs(this.unscaled) / powerOfTen(this.scale);
+        return whole === ZERO ? 0 : whole.toString().length;
+    }
+
+    /**
+     * Return this value with exactly `scale` fractional digits,
+     * rounding half-to-even if digits are dropped.
+     */
+    rescale(scale: number): Decimal {
+        if (scale === this.scale) {
+            return this;
+        }
+        if (scale > this.scale) {
+            return new Decimal(this.unscaled * powerOfTen(scale - this.scale), scale);
+        }
+        return new Decimal(divideRounded(this.unscaled, powerOfTen(this.scale - scale)), scale);
+    }
+
+    /**
+     * Remove trailing fractional zeros (1.500 becomes 1.5).
+     */
+    normalize(): Decimal {
+        let unscaled = this.unscaled;
+        let scale = this.scale;
+        while (scale > 0 && unscaled % TEN === ZERO) {
+            unscaled /= TEN;
+            scale--;
+        }
+        return scale === this.scale ? this : new Decimal(unscaled, scale);
+    }
+
+    /**
+     * Exact sum. The result has the larger of the two scales.
+     */
+    add(other: Decimal): Decimal {
+        const scale = Math.max(this.scale, other.scale);
+        return new Decimal(this.rescale(scale).unscaled + other.rescale(scale).unscaled, scale);
+    }
+
+    /**
+     * Exact difference. The result has the larger of the two scales.
+     */
+    subtract(other: Decimal): Decimal {
+        return this.add(other.negate());
+    }
+
+    /**
+     * Exact product. The result scale is the sum of the two scales.
+     */
+    multiply(other: Decimal): Decimal {
+        return new Decimal(this.unscaled * other.unscaled, this.scale + other.scale);
+    }
+
+    /**
+     * Quotient rounded half-to-even to the given scale.
+     */
+    divide(other: Decimal, scale: number): Decimal {
+        if (other.unscaled === ZERO) {
+            throw new Error('Division by zero');
+        }
+        // this / other = (a / 10^sa) / (b / 10^sb); scaled up by 10^scale
+        const exponent = scale + other.scale - this.scale;
+        const dividend = exponent >= 0
+            ? this.unscaled * powerOfTen(exponent)
+            : this.unscaled;
+        const divisor = exponent >= 0
+            ? other.unscaled
+            : other.unscaled * powerOfTen(-exponent);
+        return new Decimal(divideRounded(dividend, divisor), scale);
+    }
+
+    /**
+     * Exact remainder of the truncated quotient, so the sign follows the
+     * dividend (like the % operator). The result has the larger of the
+     * two scales.
+     */
+    remainder(other: Decimal): Decimal {
+        if (other.unscaled === ZERO) {
+            throw new Error('Division by zero');
+        }
+        const scale = Math.max(this.scale, other.scale);
+        return new Decimal(this.rescale(scale).unscaled % other.rescale(scale).unscaled, scale);
+    }
+
+    /**
+     * Return the value with its sign flipped.
+     */
+    negate(): Decimal {
+        return new Decimal(-this.unscaled, this.scale);
+    }
+
+    /**
+     * Compare with another decimal, ignoring differences in scale.
+     * Returns a negative number, zero, or a positive number.
+     */
+    compareTo(other: Decimal): number {
+        const scale = Math.max(this.scale, other.scale);
+        const a = this.rescale(scale).unscaled;
+        const b = other.rescale(scale).unscaled;
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+
+    /**
+     * Check numeric equality (1.5 equals 1.50).
+     */
+    equals(other: Decimal): boolean {
+        return this.compareTo(other) === 0;
+    }
+
+    /**
+     * Convert to the nearest JavaScript number (may lose precision).
+     */
+    toNumber(): number {
+        return Number(this.toString());
+    }
+
+    /**
+     * Render with exactly `scale` fractional digits, e.g. "19.90".
+     */
+    toString(): string {
+        const digits = abs(this.unscaled).toString().padStart(this.scale + 1, '0');
+        const sign = this.unscaled < ZERO ? '-' : '';
+        if (this.scale === 0) {
+            return sign + digits;
+        }
+        const point = digits.length - this.scale;
+        return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+    }
+
+    /**
+     * Decimals are written to JSON as strings so no digits are lost.
+     */
+    toJSON(): string {
+        return this.toString();
+    }
+}
@@ -0,0 +1,8 @@
+/**
+ * LedgerLite - Values Module
+ *
+ * Exports runtime value classes used by column types.
+ */
+
+export { Decimal } from './Decimal';
+export { SqlDate, SqlTimestamp, SqlInterval } from './DateTime';
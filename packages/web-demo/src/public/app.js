@@ -164,7 +164,7 @@ function showCreateModal() {
     editingProductId = null;
     document.getElementById('modal-title').textContent = 'Add Product';
     document.getElementById('product-form').reset();
-    document.getElementById('product-id').disabled = false;
+    document.getElementById('product-id').disabled = true;
     document.getElementById('product-stock').checked = true;
     document.getElementById('modal').classList.add('visible');
 }
@@ -193,7 +193,6 @@ async function saveProduct(event) {
     event.preventDefault();
 
     const data = {
-        id: parseInt(document.getElementById('product-id').value),
         name: document.getElementById('product-name').value,
         price: parseInt(document.getElementById('product-price').value),
         in_stock: document.getElementById('product-stock').checked,
@@ -30,7 +30,7 @@ const executor = new QueryExecutor(database);
 function initializeDatabase(): void {
     const createTable = `
     CREATE TABLE products (
-      id INT PRIMARY KEY,
+      id INT PRIMARY KEY AUTOINCREMENT,
       name TEXT,
       price INT,
       in_stock BOOL
@@ -42,17 +42,20 @@ function initializeDatabase(): void {
         console.log('✓ Products table created');
 
         // Insert some sample data
-        const samples = [
-            "INSERT INTO products (id, name, price, in_stock) VALUES (1, 'Laptop', 999, TRUE);",
-            "INSERT INTO products (id, name, price, in_stock) VALUES (2, 'Mouse', 29, TRUE);",
-            "INSERT INTO products (id, name, price, in_stock) VALUES (3, 'Keyboard', 79, FALSE);",
-            "INSERT INTO products (id, name, price, in_stock) VALUES (4, 'Monitor', 299, TRUE);",
-        ];
-
-        for (const sql of samples) {
-            executor.execute(sql);
+        const samples = `
+    INSERT INTO products (name, price, in_stock) VALUES
+      ('Laptop', 999, TRUE),
+      ('Mouse', 29, TRUE),
+      ('Keyboard', 79, FALSE),
+      ('Monitor', 299, TRUE);
+  `;
+
+        const inserted = executor.execute(samples);
+        if (inserted.success) {
+            console.log('✓ Sample products inserted');
+        } else {
+            console.error('✗ Could not insert sample products:', inserted.error);
         }
-        console.log('✓ Sample products inserted');
     }
 }
 
@@ -119,7 +122,7 @@ function serveStatic(res: http.ServerResponse, filePath: string): void {
 
 // Get all products
 function getProducts(): { success: boolean; data?: unknown[]; error?: string } {
-    const result = executor.execute('SELECT * FROM products;');
+    const result = executor.execute('SELECT * FROM products ORDER BY id;');
     if (result.success && 'rows' in result) {
         return { success: true, data: result.rows };
     }
@@ -138,25 +141,25 @@ function getProduct(id: number): { success: boolean; data?: unknown; error?: str
     return { success: false, error: 'error' in result ? result.error : 'Unknown error' };
 }
 
-// Create product
-function createProduct(data: Record<string, unknown>): { success: boolean; message?: string; error?: string } {
-    const { id, name, price, in_stock } = data;
+// Create product (the database assigns the id)
+function createProduct(data: Record<string, unknown>): { success: boolean; data?: unknown; message?: string; error?: string } {
+    const { name, price, in_stock } = data;
 
-    if (id === undefined || !name || price === undefined) {
-        return { success: false, error: 'Missing required fields: id, name, price' };
+    if (!name || price === undefined) {
+        return { success: false, error: 'Missing required fields: name, price' };
     }
 
-    const sql = `INSERT INTO products (id, name, price, in_stock) VALUES (${id}, '${name}', ${price}, ${in_stock ?? true});`;
+    const sql = `INSERT INTO products (name, price, in_stock) VALUES ('${name}', ${price}, ${in_stock ?? true}) RETURNING *;`;
     const result = executor.execute(sql);
 
     if (result.success) {
-        return { success: true, message: 'Product created' };
+        return { success: true, data: result.rows?.[0], message: 'Product created' };
     }
     return { success: false, error: 'error' in result ? result.error : 'Unknown error' };
 }
 
 // Update product
-function updateProduct(id: number, data: Record<string, unknown>): { success: boolean; message?: string; error?: string } {
+function updateProduct(id: number, data: Record<string, unknown>): { success: boolean; data?: unknown; message?: string; error?: string } {
     const updates: string[] = [];
 
     if (data.name !== undefined) {
@@ -173,14 +176,14 @@ function updateProduct(id: number, data: Record<string, unknown>): { success: bo
         return { success: false, error: 'No fields to update' };
     }
 
-    const sql = `UPDATE products SET ${updates.join(', ')} WHERE id = ${id};`;
+    const sql = `UPDATE products SET ${updates.join(', ')} WHERE id = ${id} RETURNING *;`;
     const result = executor.execute(sql);
 
     if (result.success) {
-        if ('rowCount' in result && result.rowCount === 0) {
+        if (!result.rows || result.rows.length === 0) {
             return { success: false, error: 'Product not found' };
         }
-        return { success: true, message: 'Product updated' };
+        return { success: true, data: result.rows[0], message: 'Product updated' };
     }
     return { success: false, error: 'error' in result ? result.error : 'Unknown error' };
 }